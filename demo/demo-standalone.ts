@@ -3,7 +3,7 @@
  * This version includes the SDK bundled.
  */
 
-import { FaceValidator, ValidationStatus, type SupportedLocale } from '../src/index';
+import { FaceValidator, ValidationStatus, type SupportedLocale, type ValidationCode } from '../src/index';
 
 const CAMERA_CONTAINER_ID = 'cameraContainer';
 const STATUS_ID = 'status';
@@ -233,7 +233,7 @@ function updatePageTexts() {
   if (githubLink) githubLink.textContent = translate('githubLink');
 }
 
-function updateStatusUI(status: ValidationStatus, message: string) {
+function updateStatusUI(status: ValidationCode, message: string) {
   const statusEl = getEl<HTMLDivElement>(STATUS_ID);
   const containerEl = getEl<HTMLDivElement>(STATUS_CONTAINER_ID);
 
@@ -302,7 +302,7 @@ function startValidation() {
       ui: 'none',
       locale: currentLocale,
       debugMode: debugCheckbox.checked,
-      onStatusUpdate: (status: ValidationStatus, message: string) => {
+      onStatusUpdate: (status: ValidationCode, message: string) => {
         updateStatusUI(status, message);
       },
       onCaptureSuccess: (blob: Blob) => {
@@ -319,7 +319,7 @@ function startValidation() {
         // Reiniciar captura automaticamente apos um breve delay
         btnRetry.style.display = 'none';
         autoRestartTimeout = setTimeout(() => {
-          startValidation();
+          restartValidation();
         }, AUTO_RESTART_DELAY_MS);
       },
       onError: (errorType: ValidationStatus, error: Error) => {
@@ -339,16 +339,27 @@ function startValidation() {
 }
 
 /**
- * Reinicia a validação facial (para a validação atual e inicia uma nova)
+ * Nova tentativa reaproveitando o validador (câmera e modelos já carregados)
  */
-function retry() {
+function restartValidation() {
   clearAutoRestart();
-  destroyValidator();
+  if (!validator) {
+    startValidation();
+    return;
+  }
+
+  getEl<HTMLButtonElement>(BTN_RETRY_ID).style.display = 'none';
+  // Se o validador foi destruído nesse meio tempo, recria do zero
+  validator.restart().catch(() => startValidation());
+}
 
+/**
+ * Reinicia a validação facial (botão "Tentar novamente")
+ */
+function retry() {
   updateStatusUI(ValidationStatus.INITIALIZING, translate('validationStopped'));
 
-  // Reiniciar validação
-  startValidation();
+  restartValidation();
 }
 
 /**
@@ -359,9 +370,9 @@ function changeLanguage() {
   currentLocale = localeSelect.value as SupportedLocale;
   updatePageTexts();
 
-  // Se há um validador ativo, reiniciar com novo idioma
+  // Se há um validador ativo, recriar com novo idioma (locale é opção do construtor)
   if (validator) {
-    retry();
+    startValidation();
   }
 }
 
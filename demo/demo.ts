@@ -5,7 +5,7 @@
  * Models are loaded from MediaPipe CDN automatically.
  */
 
-import { FaceValidator, ValidationStatus, type SupportedLocale } from '../src/index';
+import { FaceValidator, ValidationStatus, type SupportedLocale, type ValidationCode } from '../src/index';
 
 const CAMERA_CONTAINER_ID = 'cameraContainer';
 const STATUS_ID = 'status';
@@ -238,7 +238,7 @@ function updatePageTexts() {
 /**
  * Atualiza o status visual com classes CSS apropriadas
  */
-function updateStatusUI(status: ValidationStatus, message: string) {
+function updateStatusUI(status: ValidationCode, message: string) {
   const statusEl = getEl<HTMLDivElement>(STATUS_ID);
   const statusContainer = getEl<HTMLDivElement>(STATUS_CONTAINER_ID);
 
@@ -311,7 +311,7 @@ function startValidation() {
     ui: 'none',
     locale: currentLocale,
     debugMode: debugCheckbox.checked,
-    onStatusUpdate: (status: ValidationStatus, message: string) => {
+    onStatusUpdate: (status: ValidationCode, message: string) => {
       updateStatusUI(status, message);
     },
     onCaptureSuccess: (blob: Blob) => {
@@ -328,7 +328,7 @@ function startValidation() {
       // Reiniciar captura automaticamente apos um breve delay
       btnRetry.style.display = 'none';
       autoRestartTimeout = setTimeout(() => {
-        startValidation();
+        restartValidation();
       }, AUTO_RESTART_DELAY_MS);
     },
     onError: (errorType: ValidationStatus, error: Error) => {
@@ -342,21 +342,32 @@ function startValidation() {
 }
 
 /**
- * Reinicia a validação facial (para a validação atual e inicia uma nova)
+ * Nova tentativa reaproveitando o validador (câmera e modelos já carregados)
+ */
+function restartValidation() {
+  clearAutoRestart();
+  if (!validator) {
+    startValidation();
+    return;
+  }
+
+  getEl<HTMLButtonElement>(BTN_RETRY_ID).style.display = 'none';
+  // Se o validador foi destruído nesse meio tempo, recria do zero
+  validator.restart().catch(() => startValidation());
+}
+
+/**
+ * Reinicia a validação facial (botão "Tentar novamente")
  */
 function retry() {
   const statusEl = getEl<HTMLDivElement>(STATUS_ID);
   const statusContainer = getEl<HTMLDivElement>(STATUS_CONTAINER_ID);
 
-  clearAutoRestart();
-  destroyValidator();
-
   // Resetar status
   statusContainer.classList.remove('success', 'error', 'warning');
   statusEl.textContent = translate('validationStopped');
 
-  // Reiniciar validação
-  startValidation();
+  restartValidation();
 }
 
 /**
@@ -367,9 +378,9 @@ function changeLanguage() {
   currentLocale = localeSelect.value as SupportedLocale;
   updatePageTexts();
 
-  // Se há um validador ativo, reiniciar com novo idioma
+  // Se há um validador ativo, recriar com novo idioma (locale é opção do construtor)
   if (validator) {
-    retry();
+    startValidation();
   }
 }
 
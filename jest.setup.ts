@@ -0,0 +1,61 @@
+/*
+ * O jsdom não implementa canvas: getContext('2d') retorna null e toBlob não existe.
+ * Este contexto mínimo devolve um xadrez de dois tons de pele sob luz neutra (brilho ~120,
+ * nítido, sem reflexo), então as métricas de pixel passam, e toBlob gera um arquivo com tamanho
+ * proporcional à área e à qualidade, para testar o orçamento de bytes do encodeCapture.
+ */
+
+/** Cabeçalho fixo do arquivo fake, em bytes. */
+const FAKE_HEADER_BYTES = 200;
+/** Cromaticidade (r, g) = (0.45, 0.32), a da pele sob luz neutra em calculateColorCast. */
+const SKIN_LIGHT = [180, 128, 92];
+const SKIN_DARK = [135, 96, 69];
+
+function createImageData(width: number, height: number) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [red, green, blue] = (x + y) % 2 === 0 ? SKIN_LIGHT : SKIN_DARK;
+      const offset = (y * width + x) * 4;
+      data[offset] = red;
+      data[offset + 1] = green;
+      data[offset + 2] = blue;
+      data[offset + 3] = 255;
+    }
+  }
+  return { data, width, height, colorSpace: 'srgb' };
+}
+
+function createContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const context: Record<string | symbol, unknown> = {
+    canvas,
+    getImageData: (_x: number, _y: number, width: number, height: number) =>
+      createImageData(Math.max(1, Math.round(width)), Math.max(1, Math.round(height))),
+  };
+  // Demais métodos (drawImage, translate, ...) não fazem nada; propriedades são guardadas
+  return new Proxy(context, {
+    get: (target, key) => (key in target ? target[key] : () => undefined),
+    set: (target, key, value) => {
+      target[key] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
+  configurable: true,
+  writable: true,
+  value(this: HTMLCanvasElement, contextId: string) {
+    return contextId === '2d' ? createContext(this) : null;
+  },
+});
+
+Object.defineProperty(HTMLCanvasElement.prototype, 'toBlob', {
+  configurable: true,
+  writable: true,
+  value(this: HTMLCanvasElement, callback: BlobCallback, type = 'image/png', quality = 0.92) {
+    const ratio = type === 'image/png' ? 1 : quality;
+    const size = FAKE_HEADER_BYTES + Math.round(this.width * this.height * ratio);
+    setTimeout(() => callback(new Blob([new Uint8Array(size)], { type })), 0);
+  },
+});
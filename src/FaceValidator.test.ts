@@ -0,0 +1,226 @@
+import { FaceValidator } from './FaceValidator';
+import { FaceValidatorError } from './errors';
+import { MockDetectorBackend, type MockDetectorFrame } from './mockDetectorBackend';
+import { createSyntheticFace } from './syntheticLandmarks';
+import { ValidationStatus, type CaptureResult, type FaceValidatorOptions, type ValidationCode } from './types';
+
+// Pixels e codificação vêm do canvas fake de jest.setup.ts
+const VALID_FACE: MockDetectorFrame = { faces: [createSyntheticFace()] };
+
+function createValidator(frames: MockDetectorFrame[], options: Partial<FaceValidatorOptions> = {}) {
+  const detector = new MockDetectorBackend(frames);
+  const statuses: ValidationCode[] = [];
+  const validator = new FaceValidator({
+    videoElement: document.createElement('video'),
+    ui: 'none',
+    autoStart: false,
+    detector,
+    stabilizationTimeThreshold: 100,
+    ...options,
+    onStatusUpdate: (status, message, details) => {
+      // Um registro por mudança de status (o loop reporta o status a cada frame)
+      if (statuses[statuses.length - 1] !== status) statuses.push(status);
+      options.onStatusUpdate?.(status, message, details);
+    },
+  });
+  return { validator, detector, statuses };
+}
+
+function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (predicate()) return resolve();
+      if (Date.now() - start > timeoutMs) return reject(new Error('Timed out waiting for the condition.'));
+      setTimeout(poll, 10);
+    };
+    poll();
+  });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('FaceValidator with MockDetectorBackend', () => {
+  it('walks the status machine up to an automatic capture', async () => {
+    const onCaptureSuccess = jest.fn();
+    const { validator, detector, statuses } = createValidator(
+      [
+        { faces: [], repeat: 3 },
+        { faces: [createSyntheticFace({ scale: 0.1 })], repeat: 3 },
+        { faces: [createSyntheticFace({ center: { x: 0.8, y: 0.5 } })], repeat: 3 },
+        VALID_FACE,
+      ],
+      { onCaptureSuccess }
+    );
+
+    await waitFor(() => statuses.includes(ValidationStatus.SUCCESS));
+
+    expect(statuses).toEqual([
+      ValidationStatus.INITIALIZING,
+      ValidationStatus.NO_FACE_DETECTED,
+      ValidationStatus.TOO_FAR,
+      ValidationStatus.OFF_CENTER,
+      ValidationStatus.STAY_STILL,
+      ValidationStatus.CAPTURING,
+      ValidationStatus.SUCCESS,
+    ]);
+    expect(onCaptureSuccess).toHaveBeenCalledTimes(1);
+    const [blob, result] = onCaptureSuccess.mock.calls[0] as [Blob, CaptureResult];
+    expect(blob).toBe(result.blob);
+    expect(blob.type).toBe('image/jpeg');
+    expect(result).toMatchObject({ width: 512, height: 384, quality: 0.95, size: blob.size });
+
+    // Após a captura o loop para, mas os modelos continuam carregados para restart()
+    const detections = detector.detectCount;
+    await sleep(100);
+    expect(detector.detectCount).toBe(detections);
+    expect(detector.isDisposed).toBe(false);
+
+    validator.destroy();
+    expect(detector.isDisposed).toBe(true);
+  });
+
+  it('encodes the capture as configured in captureOutput', async () => {
+    const onCaptureSuccess = jest.fn();
+    const { validator, statuses } = createValidator([VALID_FACE], {
+      onCaptureSuccess,
+      captureOutput: { type: 'image/webp', quality: 0.8, maxWidth: 256, maxBytes: 30_000 },
+    });
+
+    await waitFor(() => statuses.includes(ValidationStatus.SUCCESS));
+
+    const [blob, result] = onCaptureSuccess.mock.calls[0] as [Blob, CaptureResult];
+    expect(blob.type).toBe('image/webp');
+    expect(result.width).toBe(256);
+    expect(result.height).toBe(192);
+    expect(result.quality).toBeLessThan(0.8);
+    expect(result.size).toBeLessThanOrEqual(30_000);
+    validator.destroy();
+  });
+
+  it('waits for capture() in manual mode', async () => {
+    const onCaptureSuccess = jest.fn();
+    const { validator, statuses } = createValidator([{ faces: [], repeat: 3 }, VALID_FACE], {
+      captureMode: 'manual',
+      onCaptureSuccess,
+    });
+
+    await waitFor(() => statuses.includes(ValidationStatus.NO_FACE_DETECTED));
+    await expect(validator.capture()).rejects.toMatchObject({
+      name: 'FaceValidatorError',
+      status: ValidationStatus.NO_FACE_DETECTED,
+    });
+
+    await waitFor(() => statuses.includes(ValidationStatus.READY_TO_CAPTURE));
+    // Pronto para capturar: o loop não captura sozinho
+    await sleep(100);
+    expect(onCaptureSuccess).not.toHaveBeenCalled();
+
+    const blob = await validator.capture();
+
+    expect(onCaptureSuccess).toHaveBeenCalledWith(blob, expect.objectContaining({ blob }));
+    expect(statuses).toEqual([
+      ValidationStatus.INITIALIZING,
+      ValidationStatus.NO_FACE_DETECTED,
+      ValidationStatus.STAY_STILL,
+      ValidationStatus.READY_TO_CAPTURE,
+      ValidationStatus.CAPTURING,
+      ValidationStatus.SUCCESS,
+    ]);
+    validator.destroy();
+  });
+
+  it('stops detecting while paused and starts the stabilization over on resume', async () => {
+    const onCaptureSuccess = jest.fn();
+    const { validator, detector, statuses } = createValidator([VALID_FACE], {
+      stabilizationTimeThreshold: 300,
+      onCaptureSuccess,
+    });
+
+    await waitFor(() => statuses.includes(ValidationStatus.STAY_STILL));
+    validator.pause();
+    const detections = detector.detectCount;
+    await sleep(400);
+
+    expect(detector.detectCount).toBe(detections);
+    expect(onCaptureSuccess).not.toHaveBeenCalled();
+
+    statuses.length = 0;
+    await validator.resume();
+    await waitFor(() => statuses.includes(ValidationStatus.SUCCESS));
+
+    // A janela de estabilização recomeçou do zero após o resume()
+    expect(statuses).toEqual([ValidationStatus.STAY_STILL, ValidationStatus.CAPTURING, ValidationStatus.SUCCESS]);
+    expect(onCaptureSuccess).toHaveBeenCalledTimes(1);
+    validator.destroy();
+  });
+
+  it('restarts a new attempt after a capture', async () => {
+    const onCaptureSuccess = jest.fn();
+    const { validator, statuses } = createValidator([VALID_FACE], { onCaptureSuccess });
+
+    await waitFor(() => statuses.includes(ValidationStatus.SUCCESS));
+    statuses.length = 0;
+    await validator.restart();
+    await waitFor(() => statuses.includes(ValidationStatus.SUCCESS));
+
+    expect(statuses).toEqual([
+      ValidationStatus.INITIALIZING,
+      ValidationStatus.STAY_STILL,
+      ValidationStatus.CAPTURING,
+      ValidationStatus.SUCCESS,
+    ]);
+    expect(onCaptureSuccess).toHaveBeenCalledTimes(2);
+    validator.destroy();
+  });
+
+  it('reports a failed model load as ERROR', async () => {
+    const onError = jest.fn();
+    const detector = new MockDetectorBackend([], { loadError: new Error('no models') });
+    const { validator, statuses } = createValidator([], { detector, onError });
+
+    await waitFor(() => statuses.includes(ValidationStatus.ERROR));
+
+    expect(onError).toHaveBeenCalledWith(ValidationStatus.ERROR, expect.any(Error));
+    validator.destroy();
+  });
+});
+
+describe('FaceValidator.capture', () => {
+  it('resolves with the captured image and releases the detector', async () => {
+    const detector = new MockDetectorBackend([{ faces: [], repeat: 3 }, VALID_FACE]);
+    const statuses: ValidationCode[] = [];
+
+    const result = await FaceValidator.capture({
+      videoElement: document.createElement('video'),
+      ui: 'none',
+      autoStart: false,
+      detector,
+      stabilizationTimeThreshold: 100,
+      onStatusUpdate: status => statuses.push(status),
+    });
+
+    expect(result.blob.type).toBe('image/jpeg');
+    expect(statuses[statuses.length - 1]).toBe(ValidationStatus.SUCCESS);
+    await waitFor(() => detector.isDisposed);
+  });
+
+  it('rejects with the blocking status when the time runs out', async () => {
+    const detector = new MockDetectorBackend([{ faces: [] }]);
+
+    const capture = FaceValidator.capture({
+      videoElement: document.createElement('video'),
+      ui: 'none',
+      autoStart: false,
+      detector,
+      timeoutMs: 300,
+    });
+
+    await expect(capture).rejects.toMatchObject({
+      name: 'CaptureTimeoutError',
+      status: ValidationStatus.NO_FACE_DETECTED,
+    });
+    await expect(capture).rejects.toBeInstanceOf(FaceValidatorError);
+    await waitFor(() => detector.isDisposed);
+  });
+});
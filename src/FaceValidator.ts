@@ -1,28 +1,69 @@
-import { FaceLandmarker, HandLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
+import type { FaceLandmarker, HandLandmarker } from '@mediapipe/tasks-vision';
 import {
   FaceValidatorOptions,
   ValidationStatus,
   DetectedFaceData,
   DetectedHandData,
   SupportedLocale,
-  BoundingBox,
+  ImageValidationOptions,
+  ImageValidationSource,
+  ValidationCode,
+  ValidationRule,
+  ValidationRuleContext,
+  ValidationRuleFailure,
+  ValidationThresholds,
+  ValidationReport,
+  FrameMetrics,
+  CaptureCandidate,
+  CaptureResult,
+  CaptureOptions,
+  CaptureOutputOptions,
+  PauseOptions,
+  PreloadModelsOptions,
+  ModelDelegate,
+  ModelsLoadedInfo,
+  DetectionPerformance,
+  DetectorBackend,
+  IcaoRequirements,
+  ValidationProfile,
+  ExpressionEvaluator,
+  HeadPose,
+  StatusUpdateDetails,
+  ValidationGuidance,
 } from './types';
-import { getMessage, getLoadingModelsMessage } from './i18n';
+import { getMessage, getGuidanceMessage, getLoadingModelsMessage, getCaptureButtonLabel } from './i18n';
+import { FaceValidatorError, CaptureTimeoutError, CaptureAbortedError } from './errors';
 import {
-  calculateAverageBrightness,
-  checkFaceDistance,
-  isFaceStable,
-  isHeadStraight,
-  isFaceGeometryPlausible,
-  isPointInsideOval,
-  isFaceBoundingBoxInsideOval,
-  isHandNearFace,
-  isNeutralExpression,
-  hasDarkGlasses,
   drawOverlay,
+  estimateBoundingBox,
+  getCenteringGuidance,
+  getHeadPoseGuidance,
+  loadImageSource,
+  toDetectedHands,
+  toFaceBlendshapes,
+  toHeadPoses,
+  DEFAULT_BLENDSHAPE_THRESHOLDS,
 } from './utils';
+import { resolveRules, runRules, sortRules } from './rules';
+import { createFrameMetrics } from './metrics';
+import { FrameBuffer } from './frameBuffer';
+import { DetectionScheduler } from './scheduler';
+import { FrameEvaluator } from './frameEvaluator';
+import { encodeCapture } from './captureOutput';
+import { ICAO_MAX_HEAD_TILT_DEGREES, ICAO_MAX_PITCH_DEGREES, ICAO_MAX_YAW_DEGREES } from './icao';
+import type { SessionRecorder } from './sessionRecorder';
+import { WorkerDetectorBackend } from './workerBackend';
+import { MediaPipeDetectorBackend } from './mediaPipeBackend';
+import {
+  retainLandmarkers,
+  releaseRetainedLandmarkers,
+  nextVideoTimestamp,
+  DEFAULT_MODEL_PATH,
+  ModelLoadOptions,
+} from './modelRegistry';
 
 const DEFAULT_LOCALE: SupportedLocale = 'en';
+const MEDIAPIPE_NOSE_TIP = 4;
 
 const defaultOptions = {
   container: undefined as HTMLElement | string | undefined,
@@ -35,18 +76,53 @@ const defaultOptions = {
   videoHeight: 384,
   minDetectionConfidence: 0.4,
   minIlluminationThreshold: 50,
+  maxHighlightClipping: 0.1,
+  maxGlareRatio: 0.03,
+  maxLightingImbalance: 0.4,
+  maxColorCast: 0.1,
   minFaceSizeFactor: 0.15,
   maxFaceSizeFactor: 0.75,
+  captureMode: 'auto' as 'auto' | 'manual',
   stabilizationTimeThreshold: 1000,
   stabilityMovementThreshold: 5,
+  targetDetectionFps: 30,
+  minDetectionFps: 5,
+  maxInferenceLatencyMs: 50,
+  bestFrameBufferSize: 0,
+  captureOutput: {} as CaptureOutputOptions,
+  keepCameraOpen: false,
   minFaceVisibilityScore: 0.4,
+  faceModelAssetPath: undefined as string | undefined,
+  handModelAssetPath: undefined as string | undefined,
+  faceModelAssetBuffer: undefined as ArrayBuffer | Uint8Array | undefined,
+  handModelAssetBuffer: undefined as ArrayBuffer | Uint8Array | undefined,
+  allowCdnFallback: false,
+  delegate: 'auto' as ModelDelegate,
   maxHeadTiltDegrees: 30,
+  maxYawDegrees: undefined as number | undefined,
+  maxPitchDegrees: undefined as number | undefined,
+  maxRollDegrees: undefined as number | undefined,
   maxHandFaceDistance: 0.15,
+  minSharpness: 15,
+  expressionEvaluator: 'geometric' as ExpressionEvaluator,
+  blendshapeThresholds: {} as Record<string, number>,
   debugMode: false,
-  locale: DEFAULT_LOCALE,
+  locale: DEFAULT_LOCALE as SupportedLocale,
   customMessages: {} as Partial<Record<ValidationStatus, string>>,
-  onStatusUpdate: undefined as ((status: ValidationStatus, message: string) => void) | undefined,
-  onCaptureSuccess: undefined as ((imageBlob: Blob) => void) | undefined,
+  rules: [] as ValidationRule[],
+  disabledRules: [] as string[],
+  profile: 'default' as ValidationProfile,
+  icao: {} as IcaoRequirements,
+  onStatusUpdate: undefined as
+    | ((status: ValidationCode, message: string, details: StatusUpdateDetails) => void)
+    | undefined,
+  onFrameReport: undefined as ((report: ValidationReport) => void) | undefined,
+  workerUrl: undefined as string | URL | undefined,
+  detector: undefined as DetectorBackend | undefined,
+  recorder: undefined as SessionRecorder | undefined,
+  onModelsLoaded: undefined as ((info: ModelsLoadedInfo) => void) | undefined,
+  onPerformanceReport: undefined as ((performance: DetectionPerformance) => void) | undefined,
+  onCaptureSuccess: undefined as ((imageBlob: Blob, result: CaptureResult) => void) | undefined,
   onError: undefined as ((errorType: ValidationStatus, error: Error) => void) | undefined,
 };
 
@@ -56,20 +132,124 @@ export type ResolvedFaceValidatorOptions = FaceValidatorOptions & {
   customMessages: Partial<Record<ValidationStatus, string>>;
 };
 
+type DefaultedOptions = typeof defaultOptions;
+
+/** Status que não representam uma validação bloqueando a captura. */
+const NON_BLOCKING_STATUSES: ValidationStatus[] = [
+  ValidationStatus.CAPTURING,
+  ValidationStatus.SUCCESS,
+  ValidationStatus.ERROR,
+];
+
+function isBuiltInStatus(status: ValidationCode): status is ValidationStatus {
+  return (Object.values(ValidationStatus) as string[]).includes(status);
+}
+
+/** Ângulos da cabeça do frame para onStatusUpdate (null sem face única ou sem estimativa). */
+function getHeadPose(metrics: FrameMetrics | null): HeadPose | null {
+  if (!metrics || metrics.yaw === null || metrics.pitch === null || metrics.roll === null) return null;
+  return { yaw: metrics.yaw, pitch: metrics.pitch, roll: metrics.roll };
+}
+
+function getThresholds(options: DefaultedOptions): ValidationThresholds {
+  return {
+    minIlluminationThreshold: options.minIlluminationThreshold,
+    maxHighlightClipping: options.maxHighlightClipping,
+    maxGlareRatio: options.maxGlareRatio,
+    maxLightingImbalance: options.maxLightingImbalance,
+    maxColorCast: options.maxColorCast,
+    minFaceSizeFactor: options.minFaceSizeFactor,
+    maxFaceSizeFactor: options.maxFaceSizeFactor,
+    maxHeadTiltDegrees: options.maxHeadTiltDegrees,
+    // Sem limite próprio, cada eixo usa maxHeadTiltDegrees
+    maxYawDegrees: options.maxYawDegrees ?? options.maxHeadTiltDegrees,
+    maxPitchDegrees: options.maxPitchDegrees ?? options.maxHeadTiltDegrees,
+    maxRollDegrees: options.maxRollDegrees ?? options.maxHeadTiltDegrees,
+    maxHandFaceDistance: options.maxHandFaceDistance,
+    minSharpness: options.minSharpness,
+    blendshapeThresholds: { ...DEFAULT_BLENDSHAPE_THRESHOLDS, ...options.blendshapeThresholds },
+    stabilizationTimeThreshold: options.stabilizationTimeThreshold,
+  };
+}
+
+/**
+ * Padrões que dependem do perfil: o ICAO limita a inclinação da cabeça (giro e aceno mais
+ * que o roll) e recorta a foto no formato 35x45, a menos que o usuário defina esses valores.
+ */
+function withProfileDefaults<
+  T extends Pick<
+    FaceValidatorOptions,
+    'profile' | 'maxHeadTiltDegrees' | 'maxYawDegrees' | 'maxPitchDegrees' | 'captureOutput'
+  >
+>(options: T): T {
+  if (options.profile !== 'icao') return options;
+  return {
+    maxHeadTiltDegrees: ICAO_MAX_HEAD_TILT_DEGREES,
+    maxYawDegrees: ICAO_MAX_YAW_DEGREES,
+    maxPitchDegrees: ICAO_MAX_PITCH_DEGREES,
+    ...options,
+    captureOutput: { crop: 'icao', ...options.captureOutput },
+  };
+}
+
+type ModelAssetOptions = Pick<
+  DefaultedOptions,
+  | 'faceModelAssetPath'
+  | 'handModelAssetPath'
+  | 'faceModelAssetBuffer'
+  | 'handModelAssetBuffer'
+  | 'allowCdnFallback'
+  | 'delegate'
+  | 'minDetectionConfidence'
+  | 'minFaceVisibilityScore'
+  | 'expressionEvaluator'
+>;
+
+function getModelLoadOptions(
+  modelPath: string,
+  runningMode: ModelLoadOptions['runningMode'],
+  options: ModelAssetOptions
+): ModelLoadOptions {
+  return {
+    modelPath,
+    faceModelAssetPath: options.faceModelAssetPath,
+    handModelAssetPath: options.handModelAssetPath,
+    faceModelAssetBuffer: options.faceModelAssetBuffer,
+    handModelAssetBuffer: options.handModelAssetBuffer,
+    allowCdnFallback: options.allowCdnFallback,
+    delegate: options.delegate,
+    runningMode,
+    minDetectionConfidence: options.minDetectionConfidence,
+    minFaceVisibilityScore: options.minFaceVisibilityScore,
+    outputFaceBlendshapes: options.expressionEvaluator === 'blendshapes',
+  };
+}
+
 /**
  * FaceValidator SDK - Real-time selfie validation with MediaPipe
  */
 export class FaceValidator {
   private options: ReturnType<typeof this.resolveOptions>;
-  private faceLandmarker: FaceLandmarker | null = null;
-  private handLandmarker: HandLandmarker | null = null;
+  private detector: DetectorBackend | null = null;
+  private detectorReady = false;
   private animationFrameId: number | null = null;
-  private lastDetection: DetectedFaceData | null = null;
-  private stableSince: number | null = null;
   private isCapturing = false;
+  private paused = false;
+  /** Incrementado a cada pause()/stop(): frames em andamento de um loop anterior são descartados. */
+  private loopGeneration = 0;
+  /** Uma regra chegou às mãos no último frame: o próximo pede a detecção de mãos ao backend. */
+  private handsWanted = false;
+  private disposed = false;
+  private loadingModels = false;
+  private currentStatus: ValidationCode = ValidationStatus.INITIALIZING;
+  private frameBuffer: FrameBuffer | null = null;
+  private scheduler: DetectionScheduler;
+  private evaluator: FrameEvaluator;
   private containerElement: HTMLElement | null = null;
   private statusElement: HTMLDivElement | null = null;
+  private shutterButtonElement: HTMLButtonElement | null = null;
   private uiRootElement: HTMLDivElement | null = null;
+  private rules: ValidationRule[];
   private cameraStream: MediaStream | null = null;
   private cameraReadyPromise: Promise<void> | null = null;
   private managedElements = false;
@@ -78,17 +258,233 @@ export class FaceValidator {
 
   constructor(options: FaceValidatorOptions) {
     this.options = this.resolveOptions(options);
+    this.rules = resolveRules(
+      this.options.rules,
+      this.options.disabledRules,
+      this.options.profile,
+      this.options.icao
+    );
+    this.scheduler = new DetectionScheduler(
+      this.options.targetDetectionFps,
+      this.options.minDetectionFps,
+      this.options.maxInferenceLatencyMs
+    );
+    this.evaluator = new FrameEvaluator({
+      thresholds: getThresholds(this.options),
+      stabilityMovementThreshold: this.options.stabilityMovementThreshold,
+      frameWidth: this.options.videoWidth || 640,
+      frameHeight: this.options.videoHeight || 480,
+      captureMode: this.options.captureMode,
+    });
+    this.options.recorder?.begin({
+      frameWidth: this.options.videoWidth || 640,
+      frameHeight: this.options.videoHeight || 480,
+      captureMode: this.options.captureMode,
+      stabilityMovementThreshold: this.options.stabilityMovementThreshold,
+      thresholds: getThresholds(this.options),
+      disabledRules: this.rules.filter(rule => rule.enabled === false).map(rule => rule.id),
+      profile: this.options.profile,
+      icao: this.options.icao,
+    });
+    if (this.options.bestFrameBufferSize > 0) {
+      this.frameBuffer = new FrameBuffer(this.options.bestFrameBufferSize, getThresholds(this.options));
+    }
     this.setupElements();
     this.setStatus(ValidationStatus.INITIALIZING);
     this.cameraReadyPromise = this.options.autoStart ? this.initCamera() : Promise.resolve();
     this.init();
   }
 
+  /**
+   * One-shot capture: starts the camera, runs validation and resolves with the captured
+   * image and its metadata. Rejects with FaceValidatorError (camera/model errors),
+   * CaptureTimeoutError (`timeoutMs` elapsed, `status` = last blocking check) or
+   * CaptureAbortedError (`signal` aborted). Resources are always released on settle.
+   */
+  public static capture(options: CaptureOptions = {}): Promise<CaptureResult> {
+    const { signal, timeoutMs, ...validatorOptions } = options;
+    const locale = validatorOptions.locale || DEFAULT_LOCALE;
+    const messageFor = (status: ValidationCode) =>
+      validatorOptions.customMessages?.[status as ValidationStatus] ?? getMessage(status as ValidationStatus, locale);
+
+    return new Promise<CaptureResult>((resolve, reject) => {
+      let validator: FaceValidator | null = null;
+      let lastBlockingStatus: ValidationCode = ValidationStatus.INITIALIZING;
+      let timeoutId: ReturnType<typeof setTimeout> | null = null;
+      let captured: CaptureResult | null = null;
+      let settled = false;
+
+      const settle = (finish: () => void) => {
+        if (settled) return;
+        settled = true;
+        if (timeoutId !== null) clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        // Chamado de dentro do loop (status/captura): destrói depois que ele terminar o frame
+        const instance = validator;
+        if (instance) queueMicrotask(() => instance.destroy());
+        finish();
+      };
+      const onAbort = () => {
+        settle(() => reject(new CaptureAbortedError(lastBlockingStatus, 'Capture aborted.', signal?.reason)));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      if (timeoutMs !== undefined) {
+        timeoutId = setTimeout(() => {
+          settle(() => reject(new CaptureTimeoutError(lastBlockingStatus, messageFor(lastBlockingStatus))));
+        }, timeoutMs);
+      }
+
+      // Sem container nem vídeo: câmera em um <video> fora do DOM
+      let videoElement = validatorOptions.videoElement;
+      if (!videoElement && !validatorOptions.container) {
+        videoElement = document.createElement('video');
+        videoElement.autoplay = true;
+        videoElement.playsInline = true;
+        videoElement.muted = true;
+      }
+
+      try {
+        validator = new FaceValidator({
+          ...validatorOptions,
+          videoElement,
+          captureMode: 'auto',
+          onStatusUpdate: (status, message, details) => {
+            if (!NON_BLOCKING_STATUSES.includes(status as ValidationStatus)) {
+              lastBlockingStatus = status;
+            }
+            validatorOptions.onStatusUpdate?.(status, message, details);
+            // Resolve só depois do SUCCESS, último status que o chamador recebe
+            const result = captured;
+            if (status === ValidationStatus.SUCCESS && result) settle(() => resolve(result));
+          },
+          onCaptureSuccess: (blob, result) => {
+            validatorOptions.onCaptureSuccess?.(blob, result);
+            captured = result;
+          },
+          onError: (errorType, error) => {
+            validatorOptions.onError?.(errorType, error);
+            settle(() =>
+              reject(error instanceof FaceValidatorError ? error : new FaceValidatorError(errorType, error.message, error))
+            );
+          },
+        });
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        settle(() => reject(new FaceValidatorError(ValidationStatus.ERROR, error.message, error)));
+      }
+    });
+  }
+
+  /**
+   * Loads the MediaPipe models ahead of time (e.g. while the user is still on the previous
+   * screen). Validators created with the same `modelPath` and confidence options reuse them
+   * instead of loading again. The models stay loaded until releaseModels(). Resolves with
+   * the delegate in use.
+   */
+  public static async preloadModels(options: PreloadModelsOptions = {}): Promise<ModelsLoadedInfo> {
+    const resolved = { ...defaultOptions, ...options };
+    const { delegate } = await retainLandmarkers(
+      getModelLoadOptions(options.modelPath || DEFAULT_MODEL_PATH, 'VIDEO', resolved)
+    );
+    return { delegate };
+  }
+
+  /**
+   * Releases the models kept by preloadModels() and validateImage(). Models still used by
+   * a running validator are closed when the last one is stopped.
+   */
+  public static releaseModels(): void {
+    releaseRetainedLandmarkers();
+  }
+
+  /**
+   * Validates a still image (e.g. a selfie picked from the gallery) without a camera.
+   * Runs the same rules as the live detection loop, except stability, and resolves
+   * with every failed status (empty array = valid selfie).
+   */
+  public static async validateImage(
+    source: ImageValidationSource,
+    options: ImageValidationOptions = {}
+  ): Promise<ValidationCode[]> {
+    const resolved = { ...defaultOptions, ...withProfileDefaults(options) };
+    const modelPath = options.modelPath || DEFAULT_MODEL_PATH;
+
+    // Modelos em modo IMAGE ficam carregados para as próximas imagens, até releaseModels()
+    const { faceLandmarker, handLandmarker } = await retainLandmarkers(
+      getModelLoadOptions(modelPath, 'IMAGE', resolved)
+    );
+    const { image, width, height } = await loadImageSource(source);
+
+    try {
+      return FaceValidator.collectImageFailures(faceLandmarker, handLandmarker, image, width, height, resolved);
+    } finally {
+      // Bitmap criado a partir de Blob pertence ao SDK e deve ser liberado
+      if (source instanceof Blob && 'close' in image) image.close();
+    }
+  }
+
+  private static collectImageFailures(
+    faceLandmarker: FaceLandmarker,
+    handLandmarker: HandLandmarker,
+    image: HTMLCanvasElement | HTMLImageElement | ImageBitmap,
+    width: number,
+    height: number,
+    options: DefaultedOptions
+  ): ValidationCode[] {
+    const faceResults = faceLandmarker.detect(image);
+    const handResults = handLandmarker.detect(image);
+
+    if (!faceResults.faceLandmarks || faceResults.faceLandmarks.length === 0) {
+      return [ValidationStatus.NO_FACE_DETECTED];
+    }
+
+    const handData = toDetectedHands(handResults);
+
+    // Com múltiplas faces, as demais validações são aplicadas à primeira face
+    const landmarks = faceResults.faceLandmarks[0];
+    const faceData: DetectedFaceData = {
+      boundingBox: estimateBoundingBox(landmarks),
+      landmarks,
+      timestamp: performance.now(),
+      blendshapes: toFaceBlendshapes(faceResults.faceBlendshapes)[0],
+      headPose: toHeadPoses(faceResults.facialTransformationMatrixes)[0],
+    };
+    const context: ValidationRuleContext = {
+      source: image,
+      frameWidth: width,
+      frameHeight: height,
+      face: faceData,
+      hands: handData,
+      metrics: createFrameMetrics({
+        source: image,
+        frameWidth: width,
+        frameHeight: height,
+        face: faceData,
+        hands: handData,
+        stabilityDelta: null,
+        stableMs: null,
+      }),
+      thresholds: getThresholds(options),
+    };
+    const rules = resolveRules(options.rules, options.disabledRules, options.profile, options.icao);
+    const failures: ValidationCode[] = faceResults.faceLandmarks.length > 1 ? [ValidationStatus.MULTIPLE_FACES] : [];
+    for (const { status } of runRules(rules, context, false)) {
+      if (!failures.includes(status)) failures.push(status);
+    }
+    return failures;
+  }
+
   private resolveOptions(options: FaceValidatorOptions) {
-    const modelPath = options.modelPath || 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm';
+    const modelPath = options.modelPath || DEFAULT_MODEL_PATH;
     return {
       ...defaultOptions,
-      ...options,
+      ...withProfileDefaults(options),
       modelPath,
       locale: options.locale || DEFAULT_LOCALE,
       customMessages: options.customMessages || {},
@@ -164,6 +560,20 @@ export class FaceValidator {
     status.className = 'fv-sdk-status';
     container.appendChild(status);
 
+    if (this.options.captureMode === 'manual') {
+      const shutter = document.createElement('button');
+      shutter.type = 'button';
+      shutter.className = 'fv-sdk-shutter';
+      shutter.textContent = getCaptureButtonLabel(this.options.locale);
+      shutter.disabled = true;
+      shutter.addEventListener('click', () => {
+        // Falhas já são reportadas via status/onError
+        this.capture().catch(() => {});
+      });
+      container.appendChild(shutter);
+      this.shutterButtonElement = shutter;
+    }
+
     this.statusElement = status;
     this.uiRootElement = container as HTMLDivElement;
     this.injectDefaultStyles();
@@ -198,6 +608,8 @@ export class FaceValidator {
       .fv-sdk-status.success { background: #d4edda; color: #155724; }
       .fv-sdk-status.error { background: #f8d7da; color: #721c24; }
       .fv-sdk-status.warning { background: #fff3cd; color: #856404; }
+      .fv-sdk-shutter { align-self: center; min-width: 180px; padding: 10px 20px; border: none; border-radius: 8px; font-size: 14px; font-weight: 600; background: #1dbe32; color: #fff; cursor: pointer; }
+      .fv-sdk-shutter:disabled { opacity: 0.5; cursor: not-allowed; }
     `;
     document.head.appendChild(style);
     this.injectedStyleElement = style;
@@ -211,73 +623,125 @@ export class FaceValidator {
   }
 
   private async init(): Promise<void> {
+    this.loadingModels = true;
     try {
       const loadingMsg = getLoadingModelsMessage(this.options.locale);
       this.setStatus(ValidationStatus.INITIALIZING, undefined, loadingMsg);
 
-      // Initialize MediaPipe FilesetResolver
-      const vision = await FilesetResolver.forVisionTasks(this.options.modelPath);
-
-      // Initialize FaceLandmarker
-      this.faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
-          delegate: 'GPU'
-        },
-        runningMode: 'VIDEO',
-        numFaces: 2, // Detectar até 2 faces para MULTIPLE_FACES
-        minFaceDetectionConfidence: this.options.minDetectionConfidence,
-        minFacePresenceConfidence: this.options.minFaceVisibilityScore,
-        minTrackingConfidence: this.options.minFaceVisibilityScore,
-      });
+      if (!this.detector) this.detector = this.createDetector();
+      const info = await this.detector.load();
 
-      // Initialize HandLandmarker
-      this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
-          delegate: 'GPU'
-        },
-        runningMode: 'VIDEO',
-        numHands: 2,
-        minHandDetectionConfidence: 0.5,
-        minHandPresenceConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
+      // stop()/destroy() chamado durante o carregamento: stop() já liberou o backend
+      if (this.disposed) return;
+      this.detectorReady = true;
+      this.options.onModelsLoaded?.(info);
 
       if (this.cameraReadyPromise) {
         await this.cameraReadyPromise;
       }
 
+      if (this.disposed) return;
       this.startDetectionLoop();
     } catch (err) {
+      // stop() durante o carregamento rejeita o load(): não é um erro para o usuário
+      if (this.disposed) return;
+      // Nova tentativa (restart) cria o backend de novo
+      this.detector?.dispose();
+      this.detector = null;
       const error = err instanceof Error ? err : new Error(String(err));
       this.setStatus(ValidationStatus.ERROR, error);
+    } finally {
+      this.loadingModels = false;
     }
   }
 
-  private getMessageForStatus(status: ValidationStatus, messageOverride?: string): string {
+  /**
+   * Backend de detecção: o informado em `detector`, o worker (`workerUrl`) ou MediaPipe
+   * na thread principal.
+   */
+  private createDetector(): DetectorBackend {
+    if (this.options.detector) return this.options.detector;
+    const modelLoadOptions = getModelLoadOptions(this.options.modelPath, 'VIDEO', this.options);
+    // Modo worker: o worker carrega os próprios modelos (fora do registro compartilhado)
+    return this.options.workerUrl
+      ? new WorkerDetectorBackend(this.options.workerUrl, modelLoadOptions)
+      : new MediaPipeDetectorBackend(modelLoadOptions);
+  }
+
+  /**
+   * Registers a validation rule, replacing any rule with the same id.
+   * Rules run in ascending `priority`; built-in rules use 10..90.
+   */
+  public addRule(rule: ValidationRule): void {
+    this.rules = sortRules([...this.rules.filter(r => r.id !== rule.id), rule]);
+  }
+
+  /**
+   * Mensagem definida pela regra para códigos customizados (status nativos usam i18n).
+   */
+  private getRuleMessage(ruleId: string, status: ValidationCode): string | undefined {
+    if (isBuiltInStatus(status) || this.options.customMessages[status as ValidationStatus]) return undefined;
+    const message = this.rules.find(r => r.id === ruleId)?.message;
+    if (typeof message === 'string') return message;
+    return message?.[this.options.locale] ?? message?.[DEFAULT_LOCALE];
+  }
+
+  private getMessageForStatus(
+    status: ValidationCode,
+    messageOverride?: string,
+    guidance: ValidationGuidance | null = null
+  ): string {
     if (messageOverride) return messageOverride;
-    if (this.options.customMessages[status]) {
-      return this.options.customMessages[status]!;
+    const customMessage = this.options.customMessages[status as ValidationStatus];
+    if (customMessage) {
+      return customMessage;
+    }
+    if (guidance) return getGuidanceMessage(guidance, this.options.locale);
+    return getMessage(status as ValidationStatus, this.options.locale);
+  }
+
+  /**
+   * Direção para corrigir HEAD_NOT_STRAIGHT/OFF_CENTER, a partir dos mesmos deslocamentos
+   * que as regras medem, no referencial do preview (espelhado ou não).
+   */
+  private getGuidance(
+    status: ValidationCode,
+    face: DetectedFaceData,
+    headPose: HeadPose | null,
+    frameWidth: number,
+    frameHeight: number
+  ): ValidationGuidance | null {
+    const { mirror } = this.options;
+    if (status === ValidationStatus.HEAD_NOT_STRAIGHT && headPose) {
+      return getHeadPoseGuidance(headPose, getThresholds(this.options), mirror);
+    }
+    if (status === ValidationStatus.OFF_CENTER) {
+      const nose = face.landmarks[MEDIAPIPE_NOSE_TIP];
+      return getCenteringGuidance(nose.x, nose.y, face.boundingBox, frameWidth, frameHeight, mirror);
     }
-    return getMessage(status, this.options.locale);
+    return null;
   }
 
   private setStatus(
-    status: ValidationStatus,
+    status: ValidationCode,
     error?: Error,
-    messageOverride?: string
+    messageOverride?: string,
+    details: StatusUpdateDetails = { headPose: null, guidance: null }
   ): void {
-    const message = this.getMessageForStatus(status, messageOverride);
+    const message = this.getMessageForStatus(status, messageOverride, details.guidance);
+    this.currentStatus = status;
     this.updateStatusUI(status, message);
-    this.options.onStatusUpdate(status, message);
+    this.options.onStatusUpdate(status, message, details);
 
     if (status === ValidationStatus.ERROR && error) {
-      this.options.onError(status, error);
+      this.options.onError(ValidationStatus.ERROR, error);
     }
   }
 
-  private updateStatusUI(status: ValidationStatus, message: string): void {
+  private updateStatusUI(status: ValidationCode, message: string): void {
+    if (this.shutterButtonElement) {
+      this.shutterButtonElement.disabled = status !== ValidationStatus.READY_TO_CAPTURE;
+    }
     if (!this.statusElement) return;
     this.statusElement.textContent = message;
     this.statusElement.classList.remove('success', 'warning', 'error');
@@ -288,9 +752,11 @@ export class FaceValidator {
     }
   }
 
-  private getStatusClass(status: ValidationStatus): '' | 'success' | 'warning' | 'error' {
-    if (status === ValidationStatus.SUCCESS) return 'success';
+  private getStatusClass(status: ValidationCode): '' | 'success' | 'warning' | 'error' {
+    if (status === ValidationStatus.SUCCESS || status === ValidationStatus.READY_TO_CAPTURE) return 'success';
     if (status === ValidationStatus.ERROR) return 'error';
+    // Códigos de regras customizadas são sempre falhas de validação
+    if (!isBuiltInStatus(status)) return 'warning';
 
     const warningStatuses: ValidationStatus[] = [
       ValidationStatus.NO_FACE_DETECTED,
@@ -301,13 +767,23 @@ export class FaceValidator {
       ValidationStatus.HEAD_NOT_STRAIGHT,
       ValidationStatus.FACE_OBSTRUCTED,
       ValidationStatus.POOR_ILLUMINATION,
+      ValidationStatus.OVEREXPOSED,
+      ValidationStatus.GLARE_DETECTED,
+      ValidationStatus.UNEVEN_LIGHTING,
+      ValidationStatus.COLOR_CAST,
       ValidationStatus.NOT_NEUTRAL_EXPRESSION,
       ValidationStatus.DARK_GLASSES,
+      ValidationStatus.IMAGE_BLURRY,
+      ValidationStatus.ICAO_EYE_DISTANCE,
+      ValidationStatus.ICAO_NOT_CENTERED,
+      ValidationStatus.ICAO_HEAD_HEIGHT,
+      ValidationStatus.ICAO_EYE_LINE,
+      ValidationStatus.BACKGROUND_NOT_UNIFORM,
       ValidationStatus.STAY_STILL,
       ValidationStatus.CAPTURING,
     ];
 
-    return warningStatuses.includes(status) ? 'warning' : '';
+    return warningStatuses.includes(status as ValidationStatus) ? 'warning' : '';
   }
 
   private async initCamera(): Promise<void> {
@@ -318,6 +794,10 @@ export class FaceValidator {
       const stream = await navigator.mediaDevices.getUserMedia({
         video: this.options.videoConstraints,
       });
+      if (this.disposed) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       this.cameraStream = stream;
       this.managedCamera = true;
       // eslint-disable-next-line no-param-reassign
@@ -360,185 +840,162 @@ export class FaceValidator {
   }
 
   private startDetectionLoop(): void {
+    if (this.animationFrameId !== null) return;
     const video = this.getVideoElement();
     const frameWidth = this.options.videoWidth || 640;
     const frameHeight = this.options.videoHeight || 480;
 
     const detect = async () => {
-      if (!this.faceLandmarker || !this.handLandmarker || !video.videoWidth) {
+      this.animationFrameId = null;
+      if (this.disposed || this.paused) return;
+      const now = performance.now();
+      const { detector } = this;
+      // Backends que não leem pixels (mock) não precisam do vídeo tocando
+      const waitingVideo = detector?.usesVideoFrames !== false && !video.videoWidth;
+      if (!detector || !this.detectorReady || waitingVideo || !this.scheduler.shouldRun(now)) {
         this.animationFrameId = requestAnimationFrame(detect);
         return;
       }
+      const sourceWidth = video.videoWidth || frameWidth;
+      const sourceHeight = video.videoHeight || frameHeight;
+      const generation = this.loopGeneration;
 
       try {
-        const now = performance.now();
-        let currentStatus: ValidationStatus = ValidationStatus.NO_FACE_DETECTED;
-        let faceData: DetectedFaceData | null = null;
-        let handData: DetectedHandData[] = [];
-
-        // Detectar faces
-        const faceResults = this.faceLandmarker.detectForVideo(video, now);
-
-        // Detectar mãos
-        const handResults = this.handLandmarker.detectForVideo(video, now);
-
-        // Processar mãos detectadas
-        if (handResults.landmarks && handResults.landmarks.length > 0) {
-          handData = handResults.landmarks.map((landmarks, idx) => ({
-            landmarks,
-            handedness: handResults.handednesses?.[idx]?.[0]?.categoryName || 'Unknown'
-          }));
+        const detection = await detector.detect({
+          source: video,
+          width: sourceWidth,
+          height: sourceHeight,
+          // Modelos podem ser compartilhados com outras instâncias: timestamp de relógio comum
+          timestamp: nextVideoTimestamp(),
+          // A gravação guarda as mãos de todo frame com uma face
+          detectHands: this.handsWanted || Boolean(this.options.recorder),
+        });
+        // pause()/stop() enquanto o backend (ex.: worker) processava o frame; após um resume()
+        // o loop novo já está rodando e este frame não pode agendar outro. Uma captura manual
+        // iniciada nesse meio-tempo é dona do status até terminar
+        if (this.disposed || this.paused || this.isCapturing || generation !== this.loopGeneration) return;
+        const { recorder } = this.options;
+        // Gravando: valida os landmarks já arredondados, como a reprodução os verá
+        const faces = recorder ? detection.faces.map(face => recorder.quantizeLandmarks(face)) : detection.faces;
+
+        // Blendshapes só valem no modo 'blendshapes' (um backend próprio pode enviá-los sempre)
+        const blendshapes =
+          this.options.expressionEvaluator === 'blendshapes' && detection.blendshapes
+            ? recorder
+              ? detection.blendshapes.map(scores => recorder.quantizeBlendshapes(scores))
+              : detection.blendshapes
+            : undefined;
+        const headPoses =
+          recorder && detection.headPoses
+            ? detection.headPoses.map(pose => recorder.quantizeHeadPose(pose))
+            : detection.headPoses;
+
+        // Mãos detectadas apenas quando uma regra precisar delas (as checagens anteriores passaram)
+        const hands: { data: DetectedHandData[] | null; skipped: boolean } = { data: null, skipped: false };
+        const getHands = (): DetectedHandData[] => {
+          if (hands.data === null) {
+            const detected = detection.getHands();
+            // Backend não detectou as mãos (não foram pedidas): o frame é descartado abaixo
+            if (detected === null) {
+              hands.skipped = true;
+              return [];
+            }
+            hands.data = recorder ? recorder.quantizeHands(detected) : detected;
+          }
+          return hands.data;
+        };
+
+        // Com onFrameReport todas as regras são avaliadas para o relatório
+        const evaluation = this.evaluator.evaluate({
+          rules: this.rules,
+          source: video,
+          sourceWidth,
+          sourceHeight,
+          faces,
+          blendshapes,
+          headPoses,
+          getHands,
+          precomputed: detection.metrics,
+          now,
+          stopAtFirstFailure: !this.options.onFrameReport,
+        });
+        this.handsWanted = hands.data !== null || hands.skipped;
+        if (hands.skipped) {
+          // Sem as mãos o resultado das regras não vale; o próximo frame já as pede
+          this.animationFrameId = requestAnimationFrame(detect);
+          return;
         }
-
-        if (faceResults.faceLandmarks && faceResults.faceLandmarks.length > 1) {
-          // Múltiplas faces detectadas
-          currentStatus = ValidationStatus.MULTIPLE_FACES;
-          this.stableSince = null;
-
-          // Usar primeira face para overlay
-          const landmarks = faceResults.faceLandmarks[0];
-          const box = faceResults.faceBlendshapes?.[0] ? this.estimateBoundingBox(landmarks) : null;
-          if (box) {
-            faceData = { boundingBox: box, landmarks, timestamp: now };
+        const { status: currentStatus, face: faceData, metrics: frameMetrics, failures: ruleFailures } = evaluation;
+        const failure = ruleFailures?.[0];
+        const messageOverride = failure ? this.getRuleMessage(failure.ruleId, failure.status) : undefined;
+
+        // Frames válidos na janela de estabilização entram no buffer de melhor frame
+        if (this.frameBuffer) {
+          if (faceData && frameMetrics && (!failure || failure.ruleId === 'stability')) {
+            this.frameBuffer.push(video, sourceWidth, sourceHeight, faceData, frameMetrics, now);
+          } else {
+            this.frameBuffer.clear();
           }
-        } else if (faceResults.faceLandmarks && faceResults.faceLandmarks.length === 1) {
-          // Uma face detectada
-          const landmarks = faceResults.faceLandmarks[0];
-          const boundingBox = this.estimateBoundingBox(landmarks);
-
-          faceData = {
-            boundingBox,
-            landmarks,
+        }
+
+        if (recorder) {
+          // Gravação completa: mãos e brilho medidos mesmo que nenhuma regra tenha chegado a eles
+          recorder.record({
             timestamp: now,
-          };
+            width: sourceWidth,
+            height: sourceHeight,
+            faces,
+            blendshapes,
+            headPoses: headPoses?.length ? headPoses : undefined,
+            hands: faceData ? getHands() : null,
+            metrics: frameMetrics,
+            status: currentStatus,
+          });
+        }
 
-          // Validações sequenciais
-          const distanceStatus = checkFaceDistance(
-            boundingBox,
-            this.options.minFaceSizeFactor,
-            this.options.maxFaceSizeFactor
-          );
+        const performanceReport = this.scheduler.record(now, performance.now() - now);
+        if (performanceReport) this.options.onPerformanceReport?.(performanceReport);
 
-          if (distanceStatus !== 'OK') {
-            currentStatus = distanceStatus === 'TOO_CLOSE' ? ValidationStatus.TOO_CLOSE : ValidationStatus.TOO_FAR;
-            this.stableSince = null;
-          } else {
-            // Verificar centralização: nariz no oval E bounding box dentro do oval
-            // Mais rigoroso: exige os dois critérios ao mesmo tempo
-            const nose = landmarks[4]; // MediaPipe nose tip
-            const isNoseCentered = isPointInsideOval(
-              nose.x,
-              nose.y,
-              frameWidth,
-              frameHeight
-            );
-            const isFaceInsideOval = isFaceBoundingBoxInsideOval(
-              boundingBox,
-              frameWidth,
-              frameHeight
-            );
+        const headPose = getHeadPose(frameMetrics);
+        this.setStatus(currentStatus, undefined, messageOverride, {
+          headPose,
+          guidance: faceData ? this.getGuidance(currentStatus, faceData, headPose, sourceWidth, sourceHeight) : null,
+        });
 
-            // Rejeitar se QUALQUER um dos critérios de centralização falhar
-            // - Nariz deve estar dentro do oval
-            // - Bounding box da face deve caber dentro do oval
-            if (!isNoseCentered || !isFaceInsideOval) {
-              currentStatus = ValidationStatus.OFF_CENTER;
-              this.stableSince = null;
-            } else if (!isFaceGeometryPlausible(landmarks, boundingBox)) {
-              currentStatus = ValidationStatus.FACE_OBSTRUCTED;
-              this.stableSince = null;
-            } else if (!isHeadStraight(landmarks, this.options.maxHeadTiltDegrees)) {
-              currentStatus = ValidationStatus.HEAD_NOT_STRAIGHT;
-              this.stableSince = null;
-            } else if (handData.length > 0 && isHandNearFace(handData[0], boundingBox, this.options.maxHandFaceDistance)) {
-              // Mão detectada próxima ao rosto
-              currentStatus = ValidationStatus.FACE_OBSTRUCTED;
-              this.stableSince = null;
-            } else if (!isNeutralExpression(landmarks)) {
-              // Expressão não neutra (sorriso, boca aberta, olhos fechados)
-              currentStatus = ValidationStatus.NOT_NEUTRAL_EXPRESSION;
-              this.stableSince = null;
-            } else if (hasDarkGlasses(video, landmarks)) {
-              // Óculos escuros detectados
-              currentStatus = ValidationStatus.DARK_GLASSES;
-              this.stableSince = null;
-            } else {
-              // Verificar iluminação
-              const tempCanvas = document.createElement('canvas');
-              const boxX = boundingBox.xMin * video.videoWidth;
-              const boxY = boundingBox.yMin * video.videoHeight;
-              const boxW = boundingBox.width * video.videoWidth;
-              const boxH = boundingBox.height * video.videoHeight;
-
-              tempCanvas.width = boxW;
-              tempCanvas.height = boxH;
-              const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-
-              if (tempCtx) {
-                tempCtx.drawImage(video, boxX, boxY, boxW, boxH, 0, 0, boxW, boxH);
-                const faceImageData = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
-                const brightness = calculateAverageBrightness(faceImageData);
-
-                if (brightness < this.options.minIlluminationThreshold) {
-                  currentStatus = ValidationStatus.POOR_ILLUMINATION;
-                  this.stableSince = null;
-                } else {
-                  // Verificar estabilidade
-                  if (
-                    isFaceStable(
-                      faceData,
-                      this.lastDetection,
-                      this.options.stabilityMovementThreshold,
-                      frameWidth,
-                      frameHeight
-                    )
-                  ) {
-                    if (!this.stableSince) this.stableSince = now;
-                    if (now - this.stableSince >= this.options.stabilizationTimeThreshold) {
-                      currentStatus = ValidationStatus.CAPTURING;
-                    } else {
-                      currentStatus = ValidationStatus.STAY_STILL;
-                    }
-                  } else {
-                    this.stableSince = null;
-                    currentStatus = ValidationStatus.STAY_STILL;
-                  }
-                }
-              } else {
-                currentStatus = ValidationStatus.FACE_DETECTED;
-                this.stableSince = null;
-              }
-            }
-          }
-        } else {
-          // Nenhuma face detectada
-          this.lastDetection = null;
-          this.stableSince = null;
+        if (this.options.onFrameReport) {
+          this.options.onFrameReport(
+            this.buildFrameReport(now, currentStatus, faces.length, frameMetrics, ruleFailures)
+          );
         }
 
-        this.lastDetection = faceData;
-        this.setStatus(currentStatus);
-
         // Desenhar overlay
         if (this.options.overlayCanvasElement) {
+          const overlayHands = hands.data;
           drawOverlay(
             this.options.overlayCanvasElement,
             this.options.debugMode || false,
             currentStatus,
             faceData || undefined,
-            handData.length > 0 ? handData : undefined
+            overlayHands && overlayHands.length > 0 ? overlayHands : undefined
           );
         }
 
         // Capturar se status é CAPTURING
         if (currentStatus === ValidationStatus.CAPTURING && !this.isCapturing) {
           this.isCapturing = true;
-          await this.captureImage();
-          this.setStatus(ValidationStatus.SUCCESS);
-          this.stop();
+          try {
+            await this.captureImage();
+            this.setStatus(ValidationStatus.SUCCESS);
+          } catch (err) {
+            this.setStatus(ValidationStatus.ERROR, err instanceof Error ? err : new Error(String(err)));
+          }
+          // Modelos continuam carregados para restart()
+          this.pause({ keepCamera: this.options.keepCameraOpen });
           return;
         }
       } catch (err) {
+        // Detecção rejeitada porque o backend foi descartado (stop()) ou o loop parou
+        if (this.disposed || this.paused || generation !== this.loopGeneration) return;
         const error = err instanceof Error ? err : new Error(String(err));
         this.setStatus(ValidationStatus.ERROR, error);
       }
@@ -549,62 +1006,203 @@ export class FaceValidator {
     this.animationFrameId = requestAnimationFrame(detect);
   }
 
-  /**
-   * Estima bounding box a partir dos landmarks (MediaPipe não fornece bbox diretamente).
-   */
-  private estimateBoundingBox(landmarks: any[]): BoundingBox {
-    const xs = landmarks.map((l: any) => l.x);
-    const ys = landmarks.map((l: any) => l.y);
-    const xMin = Math.min(...xs);
-    const xMax = Math.max(...xs);
-    const yMin = Math.min(...ys);
-    const yMax = Math.max(...ys);
+  private buildFrameReport(
+    timestamp: number,
+    status: ValidationCode,
+    faceCount: number,
+    metrics: FrameMetrics | null,
+    failures: ValidationRuleFailure[] | null
+  ): ValidationReport {
+    const checks: Record<string, boolean> = {};
+    if (failures) {
+      this.rules
+        .filter(rule => rule.enabled !== false)
+        .forEach(rule => {
+          checks[rule.id] = !failures.some(f => f.ruleId === rule.id);
+        });
+    }
     return {
-      xMin,
-      yMin,
-      width: xMax - xMin,
-      height: yMax - yMin,
+      timestamp,
+      status,
+      faceCount,
+      metrics: metrics ? { ...metrics } : null,
+      checks,
     };
   }
 
-  private async captureImage(): Promise<void> {
+  /**
+   * Captures the current frame on demand (e.g. from a shutter button in manual mode).
+   * Only allowed while every check passes; otherwise rejects with a FaceValidatorError
+   * whose `status` is the check currently blocking the capture. Rejects with CaptureSizeError
+   * when the image cannot meet the `captureOutput` size budget.
+   */
+  public async capture(): Promise<Blob> {
+    const status = this.currentStatus;
+    if (this.paused || this.isCapturing || (status !== ValidationStatus.READY_TO_CAPTURE && status !== ValidationStatus.CAPTURING)) {
+      throw new FaceValidatorError(status, this.getMessageForStatus(status));
+    }
+
+    this.isCapturing = true;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.setStatus(ValidationStatus.CAPTURING);
+
+    let blob: Blob;
+    try {
+      blob = await this.captureImage();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.pause({ keepCamera: this.options.keepCameraOpen });
+      this.setStatus(ValidationStatus.ERROR, error);
+      throw error instanceof FaceValidatorError
+        ? error
+        : new FaceValidatorError(ValidationStatus.ERROR, this.getMessageForStatus(ValidationStatus.ERROR), error);
+    }
+    this.pause({ keepCamera: this.options.keepCameraOpen });
+    this.setStatus(ValidationStatus.SUCCESS);
+    return blob;
+  }
+
+  /**
+   * Returns the frames kept by best-frame selection (bestFrameBufferSize > 0), best first,
+   * encoded as configured in `captureOutput`. Still available after a capture, until
+   * restart() or destroy().
+   */
+  public async getCaptureCandidates(): Promise<CaptureCandidate[]> {
+    if (!this.frameBuffer) return [];
+
+    const candidates: CaptureCandidate[] = [];
+    for (const frame of this.frameBuffer.getRanked()) {
+      const { canvas, face } = frame;
+      const encoded = await encodeCapture(
+        canvas,
+        canvas.width,
+        canvas.height,
+        face,
+        this.options.captureOutput,
+        this.options.icao
+      );
+      if (!encoded) continue;
+      const { timestamp, score, sharpness } = frame;
+      candidates.push({ blob: encoded.blob, timestamp, score, sharpness });
+    }
+    return candidates;
+  }
+
+  /**
+   * Captura o melhor frame do buffer (ou o frame atual do vídeo) e entrega via onCaptureSuccess.
+   * Lança erro (CaptureSizeError para o orçamento de tamanho) se não for possível gerar a imagem.
+   */
+  private async captureImage(): Promise<Blob> {
+    const best = this.frameBuffer?.getRanked()[0] ?? null;
     const video = this.getVideoElement();
-    const canvas = document.createElement('canvas');
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    const ctx = canvas.getContext('2d');
+    const source = best ? best.canvas : video;
+    // Backends que não leem o vídeo (mock) usam o tamanho de frame configurado, como o loop
+    const width = best ? best.canvas.width : video.videoWidth || this.options.videoWidth || 640;
+    const height = best ? best.canvas.height : video.videoHeight || this.options.videoHeight || 480;
+    const face = best ? best.face : this.evaluator.currentFace;
+
+    const encoded = await encodeCapture(source, width, height, face, this.options.captureOutput, this.options.icao);
+    if (!encoded) {
+      throw new Error('Failed to generate image blob');
+    }
+    const { blob } = encoded;
+
+    this.options.onCaptureSuccess(blob, {
+      blob,
+      timestamp: best ? best.timestamp : performance.now(),
+      score: best ? best.score : null,
+      sharpness: best ? best.sharpness : this.evaluator.currentMetrics?.sharpness ?? null,
+      width: encoded.width,
+      height: encoded.height,
+      quality: encoded.quality,
+      size: blob.size,
+    });
+    return blob;
+  }
+
+  /**
+   * Pauses validation. The MediaPipe models stay loaded (and, unless `keepCamera` is false,
+   * the camera stays open), so resume()/restart() do not download or compile them again.
+   */
+  public pause(options: PauseOptions = {}): void {
+    this.paused = true;
+    this.loopGeneration += 1;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.resetDetectionState();
+    if (options.keepCamera === false && this.managedCamera) {
+      this.stopCamera();
+    }
+  }
+
+  /**
+   * Resumes validation after pause() (or after a capture), reopening the camera if it was
+   * released. Rejects with FaceValidatorError after stop()/destroy().
+   */
+  public async resume(): Promise<void> {
+    this.assertNotDisposed();
+    if (!this.paused) return;
+    this.paused = false;
 
-    if (!ctx) {
-      this.setStatus(ValidationStatus.ERROR, new Error('Failed to get canvas context'));
+    if (this.options.autoStart) {
+      this.cameraReadyPromise = this.initCamera();
+    }
+    if (!this.detectorReady) {
+      // Modelos ainda carregando: init() inicia o loop; se falharam, tenta carregar de novo
+      if (!this.loadingModels) await this.init();
       return;
     }
+    await this.cameraReadyPromise;
+    if (this.disposed || this.paused) return;
+    this.startDetectionLoop();
+  }
 
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  /**
+   * Starts a new attempt (e.g. "Try again" after a capture or an error) reusing the loaded
+   * models: resets stability, status and buffered frames, then resumes.
+   */
+  public async restart(): Promise<void> {
+    this.assertNotDisposed();
+    this.pause();
+    this.frameBuffer?.clear();
+    this.setStatus(ValidationStatus.INITIALIZING);
+    await this.resume();
+  }
 
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          this.options.onCaptureSuccess(blob);
-        } else {
-          this.setStatus(ValidationStatus.ERROR, new Error('Failed to generate image blob'));
-        }
-      },
-      'image/jpeg',
-      0.95
-    );
+  private resetDetectionState(): void {
+    this.scheduler.reset();
+    this.evaluator.reset();
+    this.options.recorder?.markReset();
+    this.isCapturing = false;
+    this.handsWanted = false;
+  }
+
+  private assertNotDisposed(): void {
+    if (this.disposed) {
+      throw new FaceValidatorError(ValidationStatus.ERROR, 'FaceValidator was stopped; create a new instance.');
+    }
   }
 
+  /**
+   * Stops validation for good, releasing the camera opened by the SDK and this validator's
+   * reference to the shared models.
+   */
   public stop(): void {
+    this.disposed = true;
+    this.loopGeneration += 1;
     if (this.animationFrameId !== null) {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
-    if (this.faceLandmarker) {
-      this.faceLandmarker.close();
-    }
-    if (this.handLandmarker) {
-      this.handLandmarker.close();
-    }
+    // MediaPipe: o registro fecha os modelos quando nenhuma instância os usa mais
+    this.detectorReady = false;
+    this.detector?.dispose();
+    this.detector = null;
     if (this.managedCamera) {
       this.stopCamera();
     }
@@ -615,7 +1213,9 @@ export class FaceValidator {
     if (this.managedElements && this.containerElement) {
       this.containerElement.innerHTML = '';
     }
+    this.frameBuffer?.clear();
     this.statusElement = null;
+    this.shutterButtonElement = null;
     this.uiRootElement = null;
   }
 
@@ -623,6 +1223,8 @@ export class FaceValidator {
     if (this.cameraStream) {
       this.cameraStream.getTracks().forEach(track => track.stop());
       this.cameraStream = null;
+      // Permite que initCamera() abra a câmera de novo em resume()
+      if (this.options.videoElement) this.options.videoElement.srcObject = null;
     }
   }
 
@@ -7,9 +7,9 @@ import React, {
 } from 'react';
 
 import { FaceValidator } from './FaceValidator';
-import type { FaceValidatorOptions, SupportedLocale } from './types';
+import type { CaptureOutputOptions, FaceValidatorOptions, SupportedLocale, ValidationCode } from './types';
 import { ValidationStatus } from './types';
-import { getMessage, getLoadingModelsMessage } from './i18n';
+import { getMessage, getLoadingModelsMessage, getCaptureButtonLabel } from './i18n';
 
 const DEFAULT_VIDEO_WIDTH = 512;
 const DEFAULT_VIDEO_HEIGHT = 384;
@@ -22,6 +22,7 @@ const CRITICAL_STATUSES = [
   ValidationStatus.ERROR,
   ValidationStatus.CAPTURING,
   ValidationStatus.INITIALIZING,
+  ValidationStatus.READY_TO_CAPTURE,
 ];
 
 type UILabels = {
@@ -29,9 +30,11 @@ type UILabels = {
   savePhoto: string;
   tryAgain: string;
   cancel: string;
+  takePhoto: string;
 };
 
-const UI_LABELS: Record<SupportedLocale, UILabels> = {
+// O rótulo do botão de captura vem de getCaptureButtonLabel (i18n), como na UI do SDK
+const UI_LABELS: Record<SupportedLocale, Omit<UILabels, 'takePhoto'>> = {
   'pt-BR': {
     previewQuestion: 'O que você achou?',
     savePhoto: 'Salvar foto',
@@ -70,6 +73,14 @@ export interface ReactSelfieCaptureProps {
   videoHeight?: number;
   debugMode?: boolean;
   modelPath?: string;
+  faceModelAssetPath?: string;
+  handModelAssetPath?: string;
+  captureMode?: 'auto' | 'manual';
+  /**
+   * Format, size and crop of the saved image. Mirrored like the preview unless `mirror: false`.
+   * Read when the camera starts; changes apply to the next camera session.
+   */
+  captureOutput?: CaptureOutputOptions;
   styles?: SelfieCaptureStyles;
   labels?: SelfieCaptureUILabelOverrides;
 }
@@ -90,11 +101,18 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
   videoHeight = DEFAULT_VIDEO_HEIGHT,
   debugMode = false,
   modelPath,
+  faceModelAssetPath,
+  handModelAssetPath,
+  captureMode = 'auto',
+  captureOutput,
   styles,
   labels,
 }) => {
   const effectiveLocale = resolveLocale(locale);
-  const baseLabels = UI_LABELS[effectiveLocale];
+  const baseLabels: UILabels = {
+    ...UI_LABELS[effectiveLocale],
+    takePhoto: getCaptureButtonLabel(effectiveLocale),
+  };
   const ui: UILabels = { ...baseLabels, ...(labels ?? {}) };
 
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -103,8 +121,11 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
   const messageTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastDisplayTimeRef = useRef<number>(0);
   const latestMessageRef = useRef<string>('');
+  // Lido por ref: um objeto literal novo a cada render não deve recriar o validador
+  const captureOutputRef = useRef<CaptureOutputOptions | undefined>(captureOutput);
+  captureOutputRef.current = captureOutput;
 
-  const [status, setStatus] = useState<ValidationStatus>(ValidationStatus.INITIALIZING);
+  const [status, setStatus] = useState<ValidationCode>(ValidationStatus.INITIALIZING);
   const [message, setMessage] = useState<string>(
     getMessage(ValidationStatus.INITIALIZING, effectiveLocale),
   );
@@ -115,7 +136,7 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
   const [photoCaptured, setPhotoCaptured] = useState<string | null>(null);
 
   const handleStatusUpdate = useCallback(
-    (newStatus: ValidationStatus, newMessage: string) => {
+    (newStatus: ValidationCode, newMessage: string) => {
       setStatus(newStatus);
       setMessage(newMessage);
     },
@@ -133,7 +154,7 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
     }
 
     // Se é um status crítico, exibir imediatamente
-    if (CRITICAL_STATUSES.includes(status)) {
+    if (CRITICAL_STATUSES.includes(status as ValidationStatus)) {
       // Cancelar e limpar qualquer timeout pendente
       if (messageTimeoutRef.current) {
         clearTimeout(messageTimeoutRef.current);
@@ -185,9 +206,9 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
     (imageBlob: Blob) => {
       setStatus(ValidationStatus.SUCCESS);
       setMessage(getMessage(ValidationStatus.SUCCESS, effectiveLocale));
+      // A instância continua viva (pausada) para "Tentar novamente" reaproveitar os modelos
       blobToBase64(imageBlob).then((base64: string | null) => {
         setPhotoCaptured(base64);
-        setShowCapture(false);
       });
     },
     [effectiveLocale],
@@ -202,7 +223,8 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
     setPhotoCaptured(null);
     setStatus(ValidationStatus.INITIALIZING);
     setMessage(getMessage(ValidationStatus.INITIALIZING, effectiveLocale));
-    setShowCapture(true);
+    // Erros já chegam via onError
+    sdkRef.current?.restart().catch(() => {});
   }, [effectiveLocale]);
 
   const handleError = useCallback(
@@ -251,11 +273,20 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
           ui: 'none',
           autoStart: true,
           mirror: true,
+          captureMode,
+          // A pré-visualização é espelhada: a imagem salva acompanha o que o usuário viu
+          captureOutput: { mirror: true, ...captureOutputRef.current },
         };
 
         if (modelPath) {
           options.modelPath = modelPath;
         }
+        if (faceModelAssetPath) {
+          options.faceModelAssetPath = faceModelAssetPath;
+        }
+        if (handModelAssetPath) {
+          options.handModelAssetPath = handModelAssetPath;
+        }
 
         const instance = new FaceValidator(options);
         sdkRef.current = instance;
@@ -283,11 +314,19 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
     videoHeight,
     debugMode,
     modelPath,
+    faceModelAssetPath,
+    handModelAssetPath,
+    captureMode,
     handleStatusUpdate,
     handleCaptureSuccess,
     handleError,
   ]);
 
+  const handleShutterClick = () => {
+    // Falhas (checagem bloqueando) já chegam via onStatusUpdate/onError
+    sdkRef.current?.capture().catch(() => {});
+  };
+
   const handleCloseClick = () => {
     onDismiss?.();
     onCapture(null);
@@ -295,8 +334,9 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
   };
 
   const isLoading = (): boolean => status === ValidationStatus.INITIALIZING;
-  const isPreview = !showCapture && Boolean(photoCaptured);
-  const isCamera = showCapture;
+  const isPreview = Boolean(photoCaptured);
+  const isCamera = showCapture && !isPreview;
+  const isReadyToCapture = status === ValidationStatus.READY_TO_CAPTURE;
 
   const containerStyle: CSSProperties = {
     width: '100%',
@@ -329,7 +369,7 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
   };
 
   if (isCamera) {
-    if (status === ValidationStatus.SUCCESS) {
+    if (status === ValidationStatus.SUCCESS || status === ValidationStatus.READY_TO_CAPTURE) {
       bannerStyle.backgroundColor = '#e0ffdf';
       bannerStyle.color = '#26c026';
     } else if (status === ValidationStatus.ERROR) {
@@ -385,14 +425,15 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
       </div>
 
       <div style={mediaWrapper}>
-        {isCamera ? (
+        {showCapture && (
+          // Vídeo continua montado (oculto) durante o preview para restart() reaproveitar a instância
           <>
             <video
               ref={videoRef}
               autoPlay
               playsInline
               muted
-              style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+              style={{ width: '100%', height: '100%', objectFit: 'cover', display: isPreview ? 'none' : 'block' }}
             />
             <canvas
               ref={canvasRef}
@@ -404,10 +445,12 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
                 height: '100%',
                 pointerEvents: 'none',
                 transform: 'scaleX(-1)',
+                display: isPreview ? 'none' : 'block',
               }}
             />
           </>
-        ) : isPreview && photoCaptured ? (
+        )}
+        {isPreview && photoCaptured ? (
           <img
             src={photoCaptured}
             alt="Selfie preview"
@@ -416,13 +459,12 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
               width: '100%',
               height: '100%',
               objectFit: 'cover',
-              transform: 'scaleX(-1)',
               backgroundColor: 'transparent',
               border: 'none',
             }}
           />
         ) : (
-          <div aria-hidden />
+          !showCapture && <div aria-hidden />
         )}
       </div>
 
@@ -451,13 +493,32 @@ export const ReactSelfieCapture: React.FC<ReactSelfieCaptureProps> = ({
             </button>
           </>
         ) : (
-          <button
-            type="button"
-            onClick={handleCloseClick}
-            style={secondaryButtonStyle}
-          >
-            {ui.cancel}
-          </button>
+          <>
+            {captureMode === 'manual' && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleShutterClick}
+                  disabled={!isReadyToCapture}
+                  style={{
+                    ...primaryButtonStyle,
+                    opacity: isReadyToCapture ? 1 : 0.6,
+                    cursor: isReadyToCapture ? 'pointer' : 'not-allowed',
+                  }}
+                >
+                  {ui.takePhoto}
+                </button>
+                <div style={{ height: 8 }} />
+              </>
+            )}
+            <button
+              type="button"
+              onClick={handleCloseClick}
+              style={secondaryButtonStyle}
+            >
+              {ui.cancel}
+            </button>
+          </>
         )}
       </div>
     </div>
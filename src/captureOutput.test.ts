@@ -0,0 +1,42 @@
+import { encodeCapture } from './captureOutput';
+import { CaptureSizeError } from './errors';
+
+// toBlob fake (jest.setup.ts): 200 bytes de cabeçalho + área × qualidade
+function createSource(): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = 640;
+  canvas.height = 480;
+  return canvas;
+}
+
+describe('encodeCapture', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lowers the quality and then the resolution until the image fits in maxBytes', async () => {
+    const encoded = await encodeCapture(createSource(), 640, 480, null, { maxBytes: 50_000 });
+
+    expect(encoded?.blob.size).toBeLessThanOrEqual(50_000);
+    expect(encoded?.width).toBeLessThan(640);
+    expect(encoded?.quality).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('gives up on an unreachable maxBytes once the canvas stops shrinking', async () => {
+    const toBlob = jest.spyOn(HTMLCanvasElement.prototype, 'toBlob');
+
+    const encoding = encodeCapture(createSource(), 640, 480, null, { maxBytes: 100 });
+
+    await expect(encoding).rejects.toBeInstanceOf(CaptureSizeError);
+    await expect(encoding).rejects.toMatchObject({ bytes: 201 });
+    await expect(encoding).rejects.toThrow('at 1x1');
+    // Cada tentativa codifica na qualidade pedida e na mínima
+    expect(toBlob.mock.calls.length).toBeLessThan(60);
+  });
+
+  it('stops at minWidth/minHeight instead of going below them', async () => {
+    const encoding = encodeCapture(createSource(), 640, 480, null, { maxBytes: 10_000, minWidth: 320 });
+
+    await expect(encoding).rejects.toThrow('at 320x240');
+  });
+});
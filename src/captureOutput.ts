@@ -0,0 +1,206 @@
+import { CaptureOutputOptions, DetectedFaceData, IcaoRequirements } from './types';
+import { canvasToBlob, getOvalBounds } from './utils';
+import { CaptureSizeError } from './errors';
+import { measureIcaoGeometry } from './icao';
+
+const DEFAULT_QUALITY = 0.95;
+const DEFAULT_PADDING = 0.2;
+/** Qualidade mínima aceita na busca por maxBytes antes de reduzir a resolução. */
+const MIN_QUALITY = 0.5;
+/** Passos da busca binária de qualidade (precisão ~0.01). */
+const QUALITY_SEARCH_STEPS = 6;
+/** Redução mínima de escala por tentativa, para a busca sempre avançar. */
+const MAX_SCALE_STEP = 0.9;
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Imagem codificada e os parâmetros usados. */
+export interface EncodedCapture {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** Qualidade usada; null para PNG. */
+  quality: number | null;
+}
+
+/**
+ * Região do frame (em pixels) a ser salva, com a margem aplicada e limitada ao frame.
+ * Sem face (não deveria acontecer numa captura válida) usa o frame inteiro.
+ */
+export function getCaptureRegion(
+  output: CaptureOutputOptions,
+  frameWidth: number,
+  frameHeight: number,
+  face: DetectedFaceData | null,
+  icao: IcaoRequirements = {}
+): Region {
+  const full = { x: 0, y: 0, width: frameWidth, height: frameHeight };
+  if (output.crop === 'icao') {
+    // Recorte 35x45 exato: a margem já faz parte da geometria ICAO
+    const geometry = face ? measureIcaoGeometry(face.landmarks, frameWidth, frameHeight, icao) : null;
+    return geometry ? geometry.crop : full;
+  }
+
+  const faceBox = face?.boundingBox;
+  let region: Region;
+  if (output.crop === 'oval') {
+    region = getOvalBounds(frameWidth, frameHeight);
+  } else if (output.crop === 'faceBox' && faceBox) {
+    region = {
+      x: faceBox.xMin * frameWidth,
+      y: faceBox.yMin * frameHeight,
+      width: faceBox.width * frameWidth,
+      height: faceBox.height * frameHeight,
+    };
+  } else {
+    return full;
+  }
+
+  const padding = output.padding ?? DEFAULT_PADDING;
+  const left = Math.max(0, Math.floor(region.x - region.width * padding));
+  const top = Math.max(0, Math.floor(region.y - region.height * padding));
+  const right = Math.min(frameWidth, Math.ceil(region.x + region.width * (1 + padding)));
+  const bottom = Math.min(frameHeight, Math.ceil(region.y + region.height * (1 + padding)));
+  if (right - left < 1 || bottom - top < 1) return full;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Desenha a região recortada (espelhada se pedido) num canvas do tamanho de saída.
+ */
+function renderRegion(
+  source: CanvasImageSource,
+  region: Region,
+  scale: number,
+  mirror: boolean
+): HTMLCanvasElement | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * scale));
+  canvas.height = Math.max(1, Math.round(region.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  if (mirror) {
+    ctx.translate(canvas.width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Maior qualidade (entre MIN_QUALITY e `maxQuality`) cujo resultado cabe em `maxBytes`,
+ * ou o menor blob obtido (qualidade mínima) se nenhuma couber.
+ */
+async function encodeWithinBudget(
+  canvas: HTMLCanvasElement,
+  type: string,
+  maxQuality: number,
+  maxBytes: number
+): Promise<{ blob: Blob; quality: number; fits: boolean } | null> {
+  const first = await canvasToBlob(canvas, type, maxQuality);
+  if (!first) return null;
+  if (first.size <= maxBytes) return { blob: first, quality: maxQuality, fits: true };
+
+  const floor = Math.min(MIN_QUALITY, maxQuality);
+  const smallest = await canvasToBlob(canvas, type, floor);
+  if (!smallest) return null;
+  if (smallest.size > maxBytes) return { blob: smallest, quality: floor, fits: false };
+
+  let best = { blob: smallest, quality: floor };
+  let low = floor;
+  let high = maxQuality;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const blob = await canvasToBlob(canvas, type, quality);
+    if (!blob) return null;
+    if (blob.size <= maxBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return { ...best, fits: true };
+}
+
+/**
+ * Recorta, reduz e espelha o frame conforme `captureOutput` e codifica no formato pedido.
+ * Com `maxBytes`, reduz primeiro a qualidade (até MIN_QUALITY) e depois a resolução (até
+ * minWidth/minHeight) até o arquivo caber. Lança CaptureSizeError se o orçamento não puder
+ * ser cumprido; retorna null se o canvas não puder ser codificado.
+ */
+export async function encodeCapture(
+  source: CanvasImageSource,
+  frameWidth: number,
+  frameHeight: number,
+  face: DetectedFaceData | null,
+  output: CaptureOutputOptions = {},
+  icao: IcaoRequirements = {}
+): Promise<EncodedCapture | null> {
+  const region = getCaptureRegion(output, frameWidth, frameHeight, face, icao);
+  const minWidth = output.minWidth ?? 0;
+  const minHeight = output.minHeight ?? 0;
+  if (region.width < minWidth || region.height < minHeight) {
+    throw new CaptureSizeError(
+      `Captured image is ${Math.round(region.width)}x${Math.round(region.height)}, below the minimum of ${minWidth}x${minHeight}.`
+    );
+  }
+
+  const maxScale = Math.min(
+    1,
+    output.maxWidth ? output.maxWidth / region.width : 1,
+    output.maxHeight ? output.maxHeight / region.height : 1
+  );
+  // Reduzir não pode passar da resolução mínima
+  const minScale = Math.max(minWidth / region.width, minHeight / region.height, 0);
+  if (minScale > maxScale) {
+    throw new CaptureSizeError('captureOutput maxWidth/maxHeight are below minWidth/minHeight.');
+  }
+  const { maxBytes } = output;
+  const type = output.type ?? 'image/jpeg';
+  const lossy = type !== 'image/png';
+  const quality = output.quality ?? DEFAULT_QUALITY;
+  const mirror = Boolean(output.mirror);
+
+  let scale = maxScale;
+  for (;;) {
+    const canvas = renderRegion(source, region, scale, mirror);
+    if (!canvas) return null;
+    const result = { width: canvas.width, height: canvas.height };
+
+    if (!maxBytes) {
+      const blob = await canvasToBlob(canvas, type, quality);
+      return blob ? { ...result, blob, quality: lossy ? quality : null } : null;
+    }
+
+    const encoded = lossy
+      ? await encodeWithinBudget(canvas, type, quality, maxBytes)
+      : await canvasToBlob(canvas, type).then(blob => (blob ? { blob, quality: null, fits: blob.size <= maxBytes } : null));
+    if (!encoded) return null;
+    if (encoded.fits) return { ...result, blob: encoded.blob, quality: encoded.quality };
+
+    // Bytes crescem ~ com a área: estima a escala que cabe, com margem
+    const estimate = scale * Math.sqrt(maxBytes / encoded.blob.size) * 0.95;
+    const nextScale = Math.max(minScale, Math.min(estimate, scale * MAX_SCALE_STEP));
+    // Sem resolução mínima a escala só tende a 0: para quando o canvas arredondado não
+    // diminui mais (1px ou passo menor que um pixel)
+    const shrinks =
+      Math.max(1, Math.round(region.width * nextScale)) < canvas.width ||
+      Math.max(1, Math.round(region.height * nextScale)) < canvas.height;
+    if (scale <= minScale || !shrinks) {
+      throw new CaptureSizeError(
+        `Captured image does not fit in ${maxBytes} bytes at ${canvas.width}x${canvas.height} ` +
+          `(smallest: ${encoded.blob.size} bytes).`,
+        encoded.blob.size
+      );
+    }
+    scale = nextScale;
+  }
+}
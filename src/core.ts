@@ -1,26 +1,127 @@
 import { FaceValidator } from './FaceValidator';
 import {
   ValidationStatus,
+  ValidationGuidance,
   type FaceValidatorOptions,
   type DetectedFaceData,
   type DetectedHandData,
   type SupportedLocale,
   type BoundingBox,
+  type ImageValidationOptions,
+  type ImageValidationSource,
+  type ValidationCode,
+  type ValidationRule,
+  type ValidationRuleContext,
+  type ValidationRuleFailure,
+  type ValidationRuleId,
+  type ValidationThresholds,
+  type FrameMetrics,
+  type ValidationReport,
+  type FrameScore,
+  type CaptureCandidate,
+  type CaptureResult,
+  type CaptureOptions,
+  type PauseOptions,
+  type PreloadModelsOptions,
+  type ModelDelegate,
+  type ModelsLoadedInfo,
+  type DetectionPerformance,
+  type DetectorBackend,
+  type DetectorFrame,
+  type DetectorResult,
+  type SessionRecording,
+  type SessionRecordingConfig,
+  type RecordedFrame,
+  type RecordedHand,
+  type ReplayOptions,
+  type ReplayResult,
+  type ReplayedFrame,
+  type CaptureOutputOptions,
+  type ValidationProfile,
+  type IcaoRequirements,
+  type BackgroundRequirements,
+  type IcaoRuleId,
+  type ExpressionEvaluator,
+  type FaceBlendshapes,
+  type HeadPose,
+  type StatusUpdateDetails,
 } from './types';
 import {
   getValidationMessages,
   getMessage,
+  getGuidanceMessage,
   getLoadingModelsMessage,
+  getCaptureButtonLabel,
 } from './i18n';
+import { FaceValidatorError, CaptureTimeoutError, CaptureAbortedError, CaptureSizeError } from './errors';
+import { createDefaultRules } from './rules';
+import { createBackgroundRule } from './icao';
+import {
+  MockDetectorBackend,
+  type MockDetectorFrame,
+  type MockDetectorBackendOptions,
+} from './mockDetectorBackend';
+import { SessionRecorder, type SessionRecorderOptions } from './sessionRecorder';
+import { replaySession } from './sessionReplay';
+import {
+  createSyntheticFace,
+  createSyntheticHand,
+  type SyntheticFaceOptions,
+  type SyntheticHandOptions,
+} from './syntheticLandmarks';
 
 export { FaceValidator };
 export {
   ValidationStatus,
+  ValidationGuidance,
   FaceValidatorOptions,
   DetectedFaceData,
   DetectedHandData,
   BoundingBox,
   SupportedLocale,
+  ImageValidationOptions,
+  ImageValidationSource,
+  ValidationCode,
+  ValidationRule,
+  ValidationRuleContext,
+  ValidationRuleFailure,
+  ValidationRuleId,
+  ValidationThresholds,
+  FrameMetrics,
+  ValidationReport,
+  FrameScore,
+  CaptureCandidate,
+  CaptureResult,
+  CaptureOptions,
+  PauseOptions,
+  PreloadModelsOptions,
+  ModelDelegate,
+  ModelsLoadedInfo,
+  DetectionPerformance,
+  DetectorBackend,
+  DetectorFrame,
+  DetectorResult,
+  SessionRecording,
+  SessionRecordingConfig,
+  RecordedFrame,
+  RecordedHand,
+  ReplayOptions,
+  ReplayResult,
+  ReplayedFrame,
+  CaptureOutputOptions,
+  ValidationProfile,
+  IcaoRequirements,
+  BackgroundRequirements,
+  IcaoRuleId,
+  ExpressionEvaluator,
+  FaceBlendshapes,
+  HeadPose,
+  StatusUpdateDetails,
 };
-export { getValidationMessages, getMessage, getLoadingModelsMessage };
+export { getValidationMessages, getMessage, getGuidanceMessage, getLoadingModelsMessage, getCaptureButtonLabel };
+export { FaceValidatorError, CaptureTimeoutError, CaptureAbortedError, CaptureSizeError };
+export { createDefaultRules, createBackgroundRule };
+export { MockDetectorBackend, MockDetectorFrame, MockDetectorBackendOptions };
+export { SessionRecorder, SessionRecorderOptions, replaySession };
+export { createSyntheticFace, createSyntheticHand, SyntheticFaceOptions, SyntheticHandOptions };
 export default FaceValidator;
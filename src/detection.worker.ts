@@ -0,0 +1,106 @@
+/**
+ * Worker de inferência (opção `workerUrl`): mantém os landmarkers e mede o brilho fora da
+ * thread principal. Compilado como bundle próprio (face-validator-sdk.worker.js).
+ */
+import { createLandmarkers, Landmarkers } from './modelRegistry';
+import { WorkerRequest, WorkerResponse, WorkerDetection } from './workerProtocol';
+import {
+  estimateBoundingBox,
+  measureEyeBrightness,
+  measureFaceBrightness,
+  measureFaceColorCast,
+  measureFaceExposure,
+  measureFaceSharpness,
+  measureBackground,
+  toDetectedHands,
+  toFaceBlendshapes,
+  toHeadPoses,
+} from './utils';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse): void;
+}
+
+const MEDIAPIPE_NOSE_TIP = 4;
+
+const scope = self as unknown as WorkerScope;
+let landmarkers: Landmarkers | null = null;
+
+/**
+ * Detecta as faces e, com exatamente uma, mede as métricas de pixels. O HandLandmarker é o
+ * passo mais caro: roda só com `detectHands` (a thread principal pede quando uma regra
+ * chegou às mãos no frame anterior).
+ */
+function detectFrame(
+  { faceLandmarker, handLandmarker }: Landmarkers,
+  frame: ImageBitmap,
+  timestamp: number,
+  detectHands: boolean
+): WorkerDetection {
+  const faceResults = faceLandmarker.detectForVideo(frame, timestamp);
+  const faces = faceResults.faceLandmarks || [];
+  const blendshapes = toFaceBlendshapes(faceResults.faceBlendshapes);
+  const headPoses = toHeadPoses(faceResults.facialTransformationMatrixes);
+  if (faces.length !== 1) {
+    return {
+      faces,
+      blendshapes,
+      headPoses,
+      hands: null,
+      eyeBrightness: null,
+      faceBrightness: null,
+      sharpness: null,
+      highlightClipping: null,
+      glareRatio: null,
+      lightingImbalance: null,
+      colorCast: null,
+      backgroundLuminance: null,
+      backgroundDeviation: null,
+      backgroundEdgeDensity: null,
+    };
+  }
+
+  const [landmarks] = faces;
+  const boundingBox = estimateBoundingBox(landmarks);
+  const exposure = measureFaceExposure(frame, frame.width, frame.height, boundingBox, landmarks[MEDIAPIPE_NOSE_TIP].x);
+  const background = measureBackground(frame, frame.width, frame.height, boundingBox);
+  return {
+    faces,
+    blendshapes,
+    headPoses,
+    hands: detectHands ? toDetectedHands(handLandmarker.detectForVideo(frame, timestamp)) : null,
+    eyeBrightness: measureEyeBrightness(frame, frame.width, frame.height, landmarks),
+    faceBrightness: measureFaceBrightness(frame, frame.width, frame.height, boundingBox),
+    sharpness: measureFaceSharpness(frame, frame.width, frame.height, boundingBox),
+    highlightClipping: exposure?.highlightClipping ?? null,
+    glareRatio: exposure?.glareRatio ?? null,
+    lightingImbalance: exposure?.lightingImbalance ?? null,
+    colorCast: measureFaceColorCast(frame, frame.width, frame.height, boundingBox),
+    backgroundLuminance: background?.luminance ?? null,
+    backgroundDeviation: background?.deviation ?? null,
+    backgroundEdgeDensity: background?.edgeDensity ?? null,
+  };
+}
+
+scope.onmessage = async ({ data }) => {
+  if (data.type === 'init') {
+    try {
+      landmarkers = await createLandmarkers(data.options);
+      scope.postMessage({ type: 'ready', delegate: landmarkers.delegate });
+    } catch (err) {
+      scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  const { id, frame, timestamp, detectHands } = data;
+  try {
+    if (!landmarkers) throw new Error('Detection worker received a frame before the models were loaded.');
+    scope.postMessage({ type: 'result', id, ...detectFrame(landmarkers, frame, timestamp, detectHands) });
+  } catch (err) {
+    scope.postMessage({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    frame.close();
+  }
+};
@@ -0,0 +1,55 @@
+import { ValidationStatus, type ValidationCode } from './types';
+
+/**
+ * Error raised by promise-based APIs. `status` is the validation status that
+ * caused the failure (e.g. the check that was blocking a manual capture).
+ */
+export class FaceValidatorError extends Error {
+  readonly status: ValidationCode;
+  /** Underlying error (camera, model loading, ...), when there is one. */
+  readonly cause?: unknown;
+
+  constructor(status: ValidationCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FaceValidatorError';
+    this.status = status;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Raised by FaceValidator.capture() when no valid frame is found within `timeoutMs`.
+ * `status` is the last check that was blocking the capture.
+ */
+export class CaptureTimeoutError extends FaceValidatorError {
+  constructor(status: ValidationCode, message: string) {
+    super(status, message);
+    this.name = 'CaptureTimeoutError';
+  }
+}
+
+/**
+ * Raised by FaceValidator.capture() when its AbortSignal is aborted.
+ * `status` is the last status reported before aborting.
+ */
+export class CaptureAbortedError extends FaceValidatorError {
+  constructor(status: ValidationCode, message: string, cause?: unknown) {
+    super(status, message, cause);
+    this.name = 'CaptureAbortedError';
+  }
+}
+
+/**
+ * Raised when the captured image cannot meet the `captureOutput` size budget: the crop is
+ * smaller than `minWidth`/`minHeight`, or no quality/scale at or above them fits `maxBytes`.
+ */
+export class CaptureSizeError extends FaceValidatorError {
+  /** Smallest size reached (bytes), or null when the minimum resolution was not met. */
+  readonly bytes: number | null;
+
+  constructor(message: string, bytes: number | null = null) {
+    super(ValidationStatus.ERROR, message);
+    this.name = 'CaptureSizeError';
+    this.bytes = bytes;
+  }
+}
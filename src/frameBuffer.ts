@@ -0,0 +1,129 @@
+import { DetectedFaceData, FrameMetrics, FrameScore, ValidationThresholds } from './types';
+
+/** Pesos de cada componente no score final (somam 1). */
+const SCORE_WEIGHTS = {
+  sharpness: 0.4,
+  eyeOpenness: 0.2,
+  headPose: 0.2,
+  brightness: 0.2,
+};
+
+/** Brilho (0-255) considerado ideal para o rosto. */
+const IDEAL_FACE_BRIGHTNESS = 130;
+
+export interface BufferedFrame {
+  canvas: HTMLCanvasElement;
+  face: DetectedFaceData;
+  timestamp: number;
+  score: FrameScore;
+  /** Nitidez absoluta do rosto (FrameMetrics.sharpness). */
+  sharpness: number;
+}
+
+interface FrameSample {
+  canvas: HTMLCanvasElement;
+  face: DetectedFaceData;
+  timestamp: number;
+  sharpness: number;
+  eyeOpenness: number;
+  /** Maior ângulo da cabeça em fração do limite do próprio eixo (1 = no limite). */
+  headPoseDeviation: number;
+  brightness: number | null;
+}
+
+/**
+ * Buffer circular com cópias dos frames que passaram em todas as validações durante a
+ * janela de estabilização. Os canvases são reaproveitados para evitar alocação a cada frame.
+ */
+export class FrameBuffer {
+  private samples: FrameSample[] = [];
+  private next = 0;
+
+  constructor(
+    private readonly size: number,
+    private readonly poseLimits: Pick<ValidationThresholds, 'maxYawDegrees' | 'maxPitchDegrees' | 'maxRollDegrees'>
+  ) {}
+
+  get length(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Copia o frame atual para o buffer (substituindo o mais antigo quando cheio).
+   */
+  push(
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    face: DetectedFaceData,
+    metrics: FrameMetrics,
+    timestamp: number
+  ): void {
+    const reused = this.samples.length >= this.size ? this.samples[this.next] : null;
+    const canvas = reused?.canvas ?? document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(source, 0, 0, width, height);
+
+    const sample: FrameSample = {
+      canvas,
+      face,
+      timestamp,
+      // Mesma medida da regra 'sharpness' (região do rosto, largura fixa)
+      sharpness: metrics.sharpness ?? 0,
+      eyeOpenness: ((metrics.leftEyeOpenness ?? 0) + (metrics.rightEyeOpenness ?? 0)) / 2,
+      headPoseDeviation: Math.max(
+        Math.abs(metrics.yaw ?? 0) / Math.max(this.poseLimits.maxYawDegrees, 1),
+        Math.abs(metrics.pitch ?? 0) / Math.max(this.poseLimits.maxPitchDegrees, 1),
+        Math.abs(metrics.roll ?? 0) / Math.max(this.poseLimits.maxRollDegrees, 1)
+      ),
+      brightness: metrics.faceBrightness,
+    };
+
+    if (reused) {
+      this.samples[this.next] = sample;
+    } else {
+      this.samples.push(sample);
+    }
+    this.next = (this.next + 1) % this.size;
+  }
+
+  clear(): void {
+    this.samples = [];
+    this.next = 0;
+  }
+
+  /**
+   * Retorna os frames ordenados do melhor para o pior score.
+   */
+  getRanked(): BufferedFrame[] {
+    const maxSharpness = Math.max(...this.samples.map(s => s.sharpness), Number.EPSILON);
+    const maxEyeOpenness = Math.max(...this.samples.map(s => s.eyeOpenness), Number.EPSILON);
+
+    return this.samples
+      .map(sample => {
+        const sharpness = sample.sharpness / maxSharpness;
+        const eyeOpenness = sample.eyeOpenness / maxEyeOpenness;
+        const headPose = Math.max(0, 1 - sample.headPoseDeviation);
+        const brightness =
+          sample.brightness === null
+            ? 0
+            : Math.max(0, 1 - Math.abs(sample.brightness - IDEAL_FACE_BRIGHTNESS) / IDEAL_FACE_BRIGHTNESS);
+        const total =
+          SCORE_WEIGHTS.sharpness * sharpness +
+          SCORE_WEIGHTS.eyeOpenness * eyeOpenness +
+          SCORE_WEIGHTS.headPose * headPose +
+          SCORE_WEIGHTS.brightness * brightness;
+        return {
+          canvas: sample.canvas,
+          face: sample.face,
+          timestamp: sample.timestamp,
+          sharpness: sample.sharpness,
+          score: { total, sharpness, eyeOpenness, headPose, brightness },
+        };
+      })
+      .sort((a, b) => b.score.total - a.score.total);
+  }
+}
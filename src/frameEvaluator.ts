@@ -0,0 +1,165 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import {
+  ValidationStatus,
+  DetectedFaceData,
+  DetectedHandData,
+  FaceBlendshapes,
+  FrameMetrics,
+  HeadPose,
+  ValidationCode,
+  ValidationRule,
+  ValidationRuleFailure,
+  ValidationThresholds,
+} from './types';
+import { isFaceStable, measureFaceMovement, estimateBoundingBox } from './utils';
+import { runRules } from './rules';
+import { createFrameMetrics } from './metrics';
+
+export interface FrameEvaluatorOptions {
+  thresholds: ValidationThresholds;
+  stabilityMovementThreshold: number;
+  /** Dimensões de referência da estabilidade (videoWidth/videoHeight das opções). */
+  frameWidth: number;
+  frameHeight: number;
+  captureMode: 'auto' | 'manual';
+}
+
+export interface FrameEvaluationInput {
+  rules: ValidationRule[];
+  source: CanvasImageSource;
+  sourceWidth: number;
+  sourceHeight: number;
+  faces: NormalizedLandmark[][];
+  /** Blendshapes de cada face; ausentes, a regra de expressão usa a geometria. */
+  blendshapes?: FaceBlendshapes[];
+  /** Ângulos da cabeça de cada face (matriz de transformação facial), se o detector os fornece. */
+  headPoses?: HeadPose[];
+  /** Mãos do frame, detectadas apenas se uma regra precisar. */
+  getHands: () => DetectedHandData[];
+  /** Medições já feitas pelo backend ou vindas de uma gravação. */
+  precomputed?: Partial<FrameMetrics>;
+  now: number;
+  /** Sem onFrameReport basta a primeira falha. */
+  stopAtFirstFailure: boolean;
+}
+
+export interface FrameEvaluation {
+  status: ValidationCode;
+  face: DetectedFaceData | null;
+  metrics: FrameMetrics | null;
+  /** Falhas das regras (só a primeira se stopAtFirstFailure), ou null sem face única. */
+  failures: ValidationRuleFailure[] | null;
+}
+
+/**
+ * Máquina de estados de um frame: faces → estabilidade → regras → status. Separada do loop
+ * para que a reprodução de gravações (replaySession) use exatamente a mesma lógica.
+ */
+export class FrameEvaluator {
+  private lastDetection: DetectedFaceData | null = null;
+  private lastMetrics: FrameMetrics | null = null;
+  private stableSince: number | null = null;
+
+  constructor(private readonly options: FrameEvaluatorOptions) {}
+
+  /** Face do último frame avaliado (null se não havia exatamente uma). */
+  get currentFace(): DetectedFaceData | null {
+    return this.lastDetection;
+  }
+
+  /** Métricas do último frame avaliado (null se não havia exatamente uma face). */
+  get currentMetrics(): FrameMetrics | null {
+    return this.lastMetrics;
+  }
+
+  evaluate(input: FrameEvaluationInput): FrameEvaluation {
+    const { faces, now } = input;
+    const { frameWidth, frameHeight } = this.options;
+
+    if (faces.length > 1) {
+      // Múltiplas faces detectadas
+      this.lastDetection = null;
+      this.lastMetrics = null;
+      this.stableSince = null;
+      return { status: ValidationStatus.MULTIPLE_FACES, face: null, metrics: null, failures: null };
+    }
+
+    if (faces.length === 0) {
+      // Nenhuma face detectada
+      this.lastDetection = null;
+      this.lastMetrics = null;
+      this.stableSince = null;
+      return { status: ValidationStatus.NO_FACE_DETECTED, face: null, metrics: null, failures: null };
+    }
+
+    // Uma face detectada
+    const landmarks = faces[0];
+    const face: DetectedFaceData = {
+      boundingBox: estimateBoundingBox(landmarks),
+      landmarks,
+      timestamp: now,
+      blendshapes: input.blendshapes?.[0],
+      headPose: input.headPoses?.[0],
+    };
+
+    // Estabilidade medida antes das regras; a regra 'stability' decide se já é suficiente
+    const movement = measureFaceMovement(face, this.lastDetection, frameWidth, frameHeight);
+    if (isFaceStable(face, this.lastDetection, this.options.stabilityMovementThreshold, frameWidth, frameHeight)) {
+      if (!this.stableSince) this.stableSince = now;
+    } else {
+      this.stableSince = null;
+    }
+    this.lastDetection = face;
+
+    const { source, sourceWidth, sourceHeight, getHands } = input;
+    const metrics = createFrameMetrics({
+      source,
+      frameWidth: sourceWidth,
+      frameHeight: sourceHeight,
+      face,
+      hands: getHands,
+      stabilityDelta: movement
+        ? Math.max(movement.deltaX, movement.deltaY, movement.deltaWidth, movement.deltaHeight)
+        : null,
+      stableMs: this.stableSince === null ? 0 : now - this.stableSince,
+      precomputed: input.precomputed,
+    });
+    this.lastMetrics = metrics;
+
+    // Validações sequenciais: a primeira regra que falhar define o status
+    const failures = runRules(
+      input.rules,
+      {
+        source,
+        frameWidth: sourceWidth,
+        frameHeight: sourceHeight,
+        face,
+        get hands() {
+          return getHands();
+        },
+        metrics,
+        thresholds: this.options.thresholds,
+      },
+      input.stopAtFirstFailure
+    );
+    const [failure] = failures;
+
+    if (!failure) {
+      // Modo manual: aguarda capture() (botão de captura) em vez de capturar sozinho
+      const status =
+        this.options.captureMode === 'manual' ? ValidationStatus.READY_TO_CAPTURE : ValidationStatus.CAPTURING;
+      return { status, face, metrics, failures };
+    }
+
+    // Qualquer falha que não seja de estabilidade reinicia a contagem
+    if (failure.ruleId !== 'stability') this.stableSince = null;
+    return { status: failure.status, face, metrics, failures };
+  }
+
+  /** Esquece a face anterior (após pause/resume a estabilidade recomeça). */
+  reset(): void {
+    this.lastDetection = null;
+    this.lastMetrics = null;
+    this.stableSince = null;
+  }
+}
@@ -1,4 +1,4 @@
-import { ValidationStatus, type SupportedLocale } from './types';
+import { ValidationStatus, ValidationGuidance, type SupportedLocale } from './types';
 
 export type { SupportedLocale };
 
@@ -15,9 +15,20 @@ const messages: Record<SupportedLocale, Record<ValidationStatus, string>> = {
     [ValidationStatus.MULTIPLE_FACES]: 'Mantenha apenas uma pessoa no quadro.',
     [ValidationStatus.POOR_ILLUMINATION]:
       'Procure um ambiente com boa iluminação.',
+    [ValidationStatus.OVEREXPOSED]: 'Luz excessiva no rosto. Afaste-se da luz forte ou da janela.',
+    [ValidationStatus.GLARE_DETECTED]: 'Reflexos no rosto ou nos óculos. Evite luz direta.',
+    [ValidationStatus.UNEVEN_LIGHTING]: 'O rosto está iluminado de um lado só. Fique de frente para a luz.',
+    [ValidationStatus.COLOR_CAST]: 'A luz está alterando a cor da pele. Use luz branca ou natural.',
     [ValidationStatus.NOT_NEUTRAL_EXPRESSION]: 'Mantenha expressão neutra: boca fechada, sem sorrir e olhos abertos.',
     [ValidationStatus.DARK_GLASSES]: 'Remova os óculos escuros. Óculos de grau são permitidos.',
+    [ValidationStatus.IMAGE_BLURRY]: 'Imagem borrada. Fique imóvel e procure mais luz.',
+    [ValidationStatus.ICAO_EYE_DISTANCE]: 'Aproxime-se da câmera: o rosto precisa de mais resolução para a foto do documento.',
+    [ValidationStatus.ICAO_NOT_CENTERED]: 'Centralize o rosto horizontalmente no quadro.',
+    [ValidationStatus.ICAO_HEAD_HEIGHT]: 'Afaste-se até a cabeça inteira caber no quadro, com espaço acima dela.',
+    [ValidationStatus.ICAO_EYE_LINE]: 'Ajuste a altura da câmera para os olhos ficarem um pouco acima do centro do quadro.',
+    [ValidationStatus.BACKGROUND_NOT_UNIFORM]: 'Fique em frente a uma parede lisa e clara, sem objetos atrás de você.',
     [ValidationStatus.STAY_STILL]: 'Fique imóvel para capturar a foto',
+    [ValidationStatus.READY_TO_CAPTURE]: 'Tudo certo! Toque no botão para capturar.',
     [ValidationStatus.CAPTURING]: 'Capturando...',
     [ValidationStatus.SUCCESS]: 'Captura realizada!',
     [ValidationStatus.ERROR]: 'Ocorreu um erro.',
@@ -34,9 +45,20 @@ const messages: Record<SupportedLocale, Record<ValidationStatus, string>> = {
     [ValidationStatus.MULTIPLE_FACES]: 'Keep only one person in the frame.',
     [ValidationStatus.POOR_ILLUMINATION]:
       'Find a well-lit environment and center your face in the oval.',
+    [ValidationStatus.OVEREXPOSED]: 'Too much light on your face. Move away from bright lights or windows.',
+    [ValidationStatus.GLARE_DETECTED]: 'Reflections on your face or glasses. Avoid direct light.',
+    [ValidationStatus.UNEVEN_LIGHTING]: 'Your face is lit from one side. Face the light source.',
+    [ValidationStatus.COLOR_CAST]: 'The lighting is tinting your skin. Use white or natural light.',
     [ValidationStatus.NOT_NEUTRAL_EXPRESSION]: 'Keep a neutral expression: mouth closed, no smiling, and eyes open.',
     [ValidationStatus.DARK_GLASSES]: 'Remove sunglasses. Prescription glasses are allowed.',
+    [ValidationStatus.IMAGE_BLURRY]: 'The image is blurry. Hold still and find more light.',
+    [ValidationStatus.ICAO_EYE_DISTANCE]: 'Move closer to the camera: the face needs more resolution for the ID photo.',
+    [ValidationStatus.ICAO_NOT_CENTERED]: 'Center your face horizontally in the frame.',
+    [ValidationStatus.ICAO_HEAD_HEIGHT]: 'Move back until your whole head fits in the frame, with space above it.',
+    [ValidationStatus.ICAO_EYE_LINE]: 'Adjust the camera height so your eyes are slightly above the center of the frame.',
+    [ValidationStatus.BACKGROUND_NOT_UNIFORM]: 'Stand in front of a plain, light-colored wall with nothing behind you.',
     [ValidationStatus.STAY_STILL]: 'Stay still to capture the photo',
+    [ValidationStatus.READY_TO_CAPTURE]: 'All set! Press the button to capture.',
     [ValidationStatus.CAPTURING]: 'Capturing...',
     [ValidationStatus.SUCCESS]: 'Capture complete!',
     [ValidationStatus.ERROR]: 'An error occurred.',
@@ -53,15 +75,65 @@ const messages: Record<SupportedLocale, Record<ValidationStatus, string>> = {
     [ValidationStatus.MULTIPLE_FACES]: 'Mantenga solo una persona en el encuadre.',
     [ValidationStatus.POOR_ILLUMINATION]:
       'Busque un ambiente con buena iluminación y centre su rostro en el óvalo.',
+    [ValidationStatus.OVEREXPOSED]: 'Demasiada luz en el rostro. Aléjese de la luz intensa o de la ventana.',
+    [ValidationStatus.GLARE_DETECTED]: 'Reflejos en el rostro o en las gafas. Evite la luz directa.',
+    [ValidationStatus.UNEVEN_LIGHTING]: 'El rostro está iluminado de un solo lado. Colóquese de frente a la luz.',
+    [ValidationStatus.COLOR_CAST]: 'La luz está alterando el color de la piel. Use luz blanca o natural.',
     [ValidationStatus.NOT_NEUTRAL_EXPRESSION]: 'Mantenga expresión neutra: boca cerrada, sin sonreír y ojos abiertos.',
     [ValidationStatus.DARK_GLASSES]: 'Quite las gafas de sol. Las gafas graduadas están permitidas.',
+    [ValidationStatus.IMAGE_BLURRY]: 'La imagen está borrosa. Permanezca quieto y busque más luz.',
+    [ValidationStatus.ICAO_EYE_DISTANCE]: 'Acérquese a la cámara: el rostro necesita más resolución para la foto del documento.',
+    [ValidationStatus.ICAO_NOT_CENTERED]: 'Centre el rostro horizontalmente en el encuadre.',
+    [ValidationStatus.ICAO_HEAD_HEIGHT]: 'Aléjese hasta que toda la cabeza quepa en el encuadre, con espacio encima.',
+    [ValidationStatus.ICAO_EYE_LINE]: 'Ajuste la altura de la cámara para que los ojos queden un poco por encima del centro del encuadre.',
+    [ValidationStatus.BACKGROUND_NOT_UNIFORM]: 'Colóquese frente a una pared lisa y clara, sin objetos detrás.',
     [ValidationStatus.STAY_STILL]: 'Permanezca quieto para capturar la foto',
+    [ValidationStatus.READY_TO_CAPTURE]: '¡Todo listo! Pulse el botón para capturar.',
     [ValidationStatus.CAPTURING]: 'Capturando...',
     [ValidationStatus.SUCCESS]: '¡Captura realizada!',
     [ValidationStatus.ERROR]: 'Ocurrió un error.',
   },
 };
 
+const guidanceMessages: Record<SupportedLocale, Record<ValidationGuidance, string>> = {
+  'pt-BR': {
+    [ValidationGuidance.TURN_LEFT]: 'Vire o rosto um pouco para a esquerda.',
+    [ValidationGuidance.TURN_RIGHT]: 'Vire o rosto um pouco para a direita.',
+    [ValidationGuidance.CHIN_UP]: 'Levante um pouco o queixo.',
+    [ValidationGuidance.CHIN_DOWN]: 'Abaixe um pouco o queixo.',
+    [ValidationGuidance.LEVEL_HEAD]: 'Endireite a cabeça, sem incliná-la para os lados.',
+    [ValidationGuidance.MOVE_LEFT]: 'Mova-se um pouco para a esquerda.',
+    [ValidationGuidance.MOVE_RIGHT]: 'Mova-se um pouco para a direita.',
+    [ValidationGuidance.MOVE_UP]: 'Suba um pouco o rosto no oval.',
+    [ValidationGuidance.MOVE_DOWN]: 'Desça um pouco o rosto no oval.',
+    [ValidationGuidance.MOVE_BACK]: 'Afaste-se um pouco para o rosto caber no oval.',
+  },
+  en: {
+    [ValidationGuidance.TURN_LEFT]: 'Turn your head slightly to the left.',
+    [ValidationGuidance.TURN_RIGHT]: 'Turn your head slightly to the right.',
+    [ValidationGuidance.CHIN_UP]: 'Raise your chin slightly.',
+    [ValidationGuidance.CHIN_DOWN]: 'Lower your chin slightly.',
+    [ValidationGuidance.LEVEL_HEAD]: 'Level your head; do not tilt it to the side.',
+    [ValidationGuidance.MOVE_LEFT]: 'Move slightly to the left.',
+    [ValidationGuidance.MOVE_RIGHT]: 'Move slightly to the right.',
+    [ValidationGuidance.MOVE_UP]: 'Move your face up in the oval.',
+    [ValidationGuidance.MOVE_DOWN]: 'Move your face down in the oval.',
+    [ValidationGuidance.MOVE_BACK]: 'Move back a little so your face fits in the oval.',
+  },
+  es: {
+    [ValidationGuidance.TURN_LEFT]: 'Gire la cabeza un poco hacia la izquierda.',
+    [ValidationGuidance.TURN_RIGHT]: 'Gire la cabeza un poco hacia la derecha.',
+    [ValidationGuidance.CHIN_UP]: 'Levante un poco la barbilla.',
+    [ValidationGuidance.CHIN_DOWN]: 'Baje un poco la barbilla.',
+    [ValidationGuidance.LEVEL_HEAD]: 'Enderece la cabeza, sin inclinarla hacia los lados.',
+    [ValidationGuidance.MOVE_LEFT]: 'Muévase un poco hacia la izquierda.',
+    [ValidationGuidance.MOVE_RIGHT]: 'Muévase un poco hacia la derecha.',
+    [ValidationGuidance.MOVE_UP]: 'Suba un poco el rostro en el óvalo.',
+    [ValidationGuidance.MOVE_DOWN]: 'Baje un poco el rostro en el óvalo.',
+    [ValidationGuidance.MOVE_BACK]: 'Aléjese un poco para que el rostro quepa en el óvalo.',
+  },
+};
+
 const unknownStatusByLocale: Record<SupportedLocale, string> = {
   'pt-BR': 'Status desconhecido.',
   en: 'Unknown status.',
@@ -84,6 +156,13 @@ export function getMessage(status: ValidationStatus, locale: SupportedLocale): s
   return messages[locale][status] ?? unknownStatusByLocale[locale];
 }
 
+/**
+ * Returns the directional message for a HEAD_NOT_STRAIGHT/OFF_CENTER guidance and locale.
+ */
+export function getGuidanceMessage(guidance: ValidationGuidance, locale: SupportedLocale): string {
+  return guidanceMessages[locale][guidance];
+}
+
 /**
  * Returns the "Loading models..." message for a given locale (used during model load).
  */
@@ -95,3 +174,15 @@ export function getLoadingModelsMessage(locale: SupportedLocale): string {
   };
   return loading[locale];
 }
+
+/**
+ * Returns the label of the shutter button shown in manual capture mode.
+ */
+export function getCaptureButtonLabel(locale: SupportedLocale): string {
+  const labels: Record<SupportedLocale, string> = {
+    'pt-BR': 'Capturar foto',
+    en: 'Take photo',
+    es: 'Tomar foto',
+  };
+  return labels[locale];
+}
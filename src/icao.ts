@@ -0,0 +1,226 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { ValidationStatus, BackgroundRequirements, IcaoRequirements, IcaoRuleId, ValidationRule } from './types';
+
+/** Proporção largura/altura da foto 3,5 x 4,5 cm. */
+export const ICAO_ASPECT_RATIO = 35 / 45;
+
+/** Inclinação máxima da cabeça no perfil ICAO (ISO/IEC 19794-5 tolera ±8° de roll). */
+export const ICAO_MAX_HEAD_TILT_DEGREES = 8;
+
+/** Giro e aceno máximos no perfil ICAO (ISO/IEC 19794-5 tolera ±5° de yaw e pitch). */
+export const ICAO_MAX_YAW_DEGREES = 5;
+export const ICAO_MAX_PITCH_DEGREES = 5;
+
+const DEFAULT_BACKGROUND_REQUIREMENTS: Required<BackgroundRequirements> = {
+  minBackgroundLuminance: 110,
+  maxBackgroundDeviation: 28,
+  maxBackgroundEdgeDensity: 0.08,
+};
+
+const DEFAULT_REQUIREMENTS: Required<IcaoRequirements> = {
+  minHeadHeightRatio: 0.7,
+  maxHeadHeightRatio: 0.8,
+  minEyeLineRatio: 0.5,
+  maxEyeLineRatio: 0.7,
+  minEyeDistancePx: 90,
+  maxCenterOffset: 0.05,
+  ...DEFAULT_BACKGROUND_REQUIREMENTS,
+};
+
+const MEDIAPIPE_CHIN = 152;
+const MEDIAPIPE_FOREHEAD_TOP = 10;
+const MEDIAPIPE_LEFT_IRIS = 468;
+const MEDIAPIPE_RIGHT_IRIS = 473;
+const MEDIAPIPE_LEFT_EYE_CORNERS = [33, 133];
+const MEDIAPIPE_RIGHT_EYE_CORNERS = [263, 362];
+const MEDIAPIPE_MOUTH_TOP = 13;
+const MEDIAPIPE_MOUTH_BOTTOM = 14;
+
+/**
+ * A malha termina no alto da testa (landmark 10), não no topo do crânio. Pelas proporções
+ * médias da cabeça, queixo→topo ≈ 1,3 × queixo→landmark 10.
+ */
+const CROWN_FACTOR = 1.3;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Medidas ICAO da face, em pixels do frame e relativas ao recorte 35x45. */
+export interface IcaoGeometry {
+  /** Recorte 35x45 (px) com a cabeça e os olhos na posição alvo, limitado ao frame. */
+  crop: { x: number; y: number; width: number; height: number };
+  /** Altura da cabeça (queixo→topo) / altura do recorte. */
+  headHeightRatio: number;
+  /** Altura da linha dos olhos a partir da borda inferior / altura do recorte. */
+  eyeLineRatio: number;
+  /** Distância entre os centros dos olhos (px). */
+  eyeDistancePx: number;
+  /** Deslocamento horizontal da linha média do rosto em relação ao centro do recorte / largura. */
+  centerOffset: number;
+}
+
+export function resolveIcaoRequirements(requirements: IcaoRequirements = {}): Required<IcaoRequirements> {
+  return { ...DEFAULT_REQUIREMENTS, ...requirements };
+}
+
+function toPixels(landmark: NormalizedLandmark, frameWidth: number, frameHeight: number): Point {
+  return { x: landmark.x * frameWidth, y: landmark.y * frameHeight };
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Centro de um olho: a íris quando o modelo a fornece (478 pontos), senão o meio dos cantos.
+ */
+function getEyeCenter(
+  landmarks: NormalizedLandmark[],
+  iris: number,
+  corners: number[],
+  frameWidth: number,
+  frameHeight: number
+): Point {
+  if (landmarks.length > iris) return toPixels(landmarks[iris], frameWidth, frameHeight);
+  return midpoint(
+    toPixels(landmarks[corners[0]], frameWidth, frameHeight),
+    toPixels(landmarks[corners[1]], frameWidth, frameHeight)
+  );
+}
+
+/**
+ * Posiciona o recorte 35x45 com a cabeça e a linha dos olhos no meio das faixas exigidas e
+ * centrado na linha média do rosto; se não couber no frame, reduz e desloca o recorte e mede
+ * o quanto as proporções se afastaram. Retorna null sem os landmarks necessários.
+ */
+export function measureIcaoGeometry(
+  landmarks: NormalizedLandmark[],
+  frameWidth: number,
+  frameHeight: number,
+  requirements: IcaoRequirements = {}
+): IcaoGeometry | null {
+  if (landmarks.length <= MEDIAPIPE_CHIN || frameWidth <= 0 || frameHeight <= 0) return null;
+  const req = resolveIcaoRequirements(requirements);
+
+  const chin = toPixels(landmarks[MEDIAPIPE_CHIN], frameWidth, frameHeight);
+  const foreheadTop = toPixels(landmarks[MEDIAPIPE_FOREHEAD_TOP], frameWidth, frameHeight);
+  // Vetor queixo→testa em vez da altura vertical, para não subestimar com a cabeça inclinada
+  const headHeight = Math.hypot(foreheadTop.x - chin.x, foreheadTop.y - chin.y) * CROWN_FACTOR;
+
+  const leftEye = getEyeCenter(landmarks, MEDIAPIPE_LEFT_IRIS, MEDIAPIPE_LEFT_EYE_CORNERS, frameWidth, frameHeight);
+  const rightEye = getEyeCenter(landmarks, MEDIAPIPE_RIGHT_IRIS, MEDIAPIPE_RIGHT_EYE_CORNERS, frameWidth, frameHeight);
+  const eyes = midpoint(leftEye, rightEye);
+  const mouth = midpoint(
+    toPixels(landmarks[MEDIAPIPE_MOUTH_TOP], frameWidth, frameHeight),
+    toPixels(landmarks[MEDIAPIPE_MOUTH_BOTTOM], frameWidth, frameHeight)
+  );
+  // Linha média (ISO/IEC 19794-5): ponto médio entre o centro dos olhos e o centro da boca
+  const midlineX = (eyes.x + mouth.x) / 2;
+  if (headHeight <= 0) return null;
+
+  const targetHeadRatio = (req.minHeadHeightRatio + req.maxHeadHeightRatio) / 2;
+  const targetEyeLine = (req.minEyeLineRatio + req.maxEyeLineRatio) / 2;
+
+  let height = headHeight / targetHeadRatio;
+  let width = height * ICAO_ASPECT_RATIO;
+  // Recorte maior que o frame: reduz mantendo a proporção (a cabeça passa a ocupar mais)
+  const fit = Math.min(1, frameWidth / width, frameHeight / height);
+  width *= fit;
+  height *= fit;
+
+  const x = Math.min(Math.max(midlineX - width / 2, 0), frameWidth - width);
+  const y = Math.min(Math.max(eyes.y - (1 - targetEyeLine) * height, 0), frameHeight - height);
+
+  return {
+    crop: { x, y, width, height },
+    headHeightRatio: headHeight / height,
+    eyeLineRatio: (y + height - eyes.y) / height,
+    eyeDistancePx: Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y),
+    centerOffset: (midlineX - (x + width / 2)) / width,
+  };
+}
+
+/**
+ * Regras do perfil 'icao', intercaladas com as padrão pela prioridade. Cada regra reporta o
+ * requisito que falhou; as medidas são feitas sobre o recorte que seria salvo.
+ */
+export function createIcaoRules(requirements: IcaoRequirements = {}): ValidationRule[] {
+  const req = resolveIcaoRequirements(requirements);
+  const rules: Array<ValidationRule & { id: IcaoRuleId }> = [
+    {
+      // Resolução: distância mínima entre os olhos no frame da câmera
+      id: 'icaoEyeDistance',
+      priority: 15,
+      evaluate: ({ face, frameWidth, frameHeight }) => {
+        const geometry = measureIcaoGeometry(face.landmarks, frameWidth, frameHeight, req);
+        return geometry && geometry.eyeDistancePx >= req.minEyeDistancePx ? null : ValidationStatus.ICAO_EYE_DISTANCE;
+      },
+    },
+    {
+      id: 'icaoCentering',
+      priority: 22,
+      evaluate: ({ face, frameWidth, frameHeight }) => {
+        const geometry = measureIcaoGeometry(face.landmarks, frameWidth, frameHeight, req);
+        return geometry && Math.abs(geometry.centerOffset) <= req.maxCenterOffset
+          ? null
+          : ValidationStatus.ICAO_NOT_CENTERED;
+      },
+    },
+    {
+      id: 'icaoHeadHeight',
+      priority: 24,
+      evaluate: ({ face, frameWidth, frameHeight }) => {
+        const geometry = measureIcaoGeometry(face.landmarks, frameWidth, frameHeight, req);
+        return geometry &&
+          geometry.headHeightRatio >= req.minHeadHeightRatio &&
+          geometry.headHeightRatio <= req.maxHeadHeightRatio
+          ? null
+          : ValidationStatus.ICAO_HEAD_HEIGHT;
+      },
+    },
+    {
+      id: 'icaoEyeLine',
+      priority: 26,
+      evaluate: ({ face, frameWidth, frameHeight }) => {
+        const geometry = measureIcaoGeometry(face.landmarks, frameWidth, frameHeight, req);
+        return geometry && geometry.eyeLineRatio >= req.minEyeLineRatio && geometry.eyeLineRatio <= req.maxEyeLineRatio
+          ? null
+          : ValidationStatus.ICAO_EYE_LINE;
+      },
+    },
+    createBackgroundRule({
+      minBackgroundLuminance: req.minBackgroundLuminance,
+      maxBackgroundDeviation: req.maxBackgroundDeviation,
+      maxBackgroundEdgeDensity: req.maxBackgroundEdgeDensity,
+    }),
+  ];
+  return rules;
+}
+
+/**
+ * Regra de fundo liso e claro (BACKGROUND_NOT_UNIFORM), usável em qualquer perfil via
+ * `rules: [createBackgroundRule()]`. O perfil 'icao' a inclui com os limites de `icao`;
+ * como o id é o mesmo, passá-la nesse perfil substitui esses limites.
+ */
+export function createBackgroundRule(requirements: BackgroundRequirements = {}): ValidationRule & { id: 'background' } {
+  const req = { ...DEFAULT_BACKGROUND_REQUIREMENTS, ...requirements };
+  return {
+    // Luminância, variação de cor e densidade de bordas do fundo
+    id: 'background',
+    priority: 84,
+    evaluate: ({ metrics }) => {
+      const { backgroundLuminance, backgroundDeviation, backgroundEdgeDensity } = metrics;
+      // Sem medição (sem pixels ou fundo quase todo coberto) não bloqueia a captura
+      if (backgroundLuminance === null || backgroundDeviation === null || backgroundEdgeDensity === null) {
+        return null;
+      }
+      return backgroundLuminance < req.minBackgroundLuminance ||
+        backgroundDeviation > req.maxBackgroundDeviation ||
+        backgroundEdgeDensity > req.maxBackgroundEdgeDensity
+        ? ValidationStatus.BACKGROUND_NOT_UNIFORM
+        : null;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { DetectorBackend, DetectorFrame, DetectorResult, ModelsLoadedInfo } from './types';
+import { acquireLandmarkers, Landmarkers, ModelLoadOptions } from './modelRegistry';
+import { toDetectedHands, toFaceBlendshapes, toHeadPoses } from './utils';
+
+/**
+ * Backend padrão: MediaPipe na thread principal, com os modelos compartilhados pelo registro.
+ */
+export class MediaPipeDetectorBackend implements DetectorBackend {
+  private landmarkers: Landmarkers | null = null;
+  private release: (() => void) | null = null;
+
+  constructor(private readonly options: ModelLoadOptions) {}
+
+  async load(): Promise<ModelsLoadedInfo> {
+    const handle = acquireLandmarkers(this.options);
+    this.release = handle.release;
+
+    let landmarkers: Landmarkers;
+    try {
+      landmarkers = await handle.landmarkers;
+    } catch (err) {
+      this.dispose();
+      throw err;
+    }
+    // dispose() durante o carregamento: a referência já foi devolvida
+    if (this.release === handle.release) this.landmarkers = landmarkers;
+    return { delegate: landmarkers.delegate };
+  }
+
+  detect({ source, timestamp }: DetectorFrame): DetectorResult {
+    if (!this.landmarkers) throw new Error('MediaPipe models are not loaded.');
+    const { faceLandmarker, handLandmarker } = this.landmarkers;
+    const faceResults = faceLandmarker.detectForVideo(source, timestamp);
+    return {
+      faces: faceResults.faceLandmarks || [],
+      blendshapes: toFaceBlendshapes(faceResults.faceBlendshapes),
+      headPoses: toHeadPoses(faceResults.facialTransformationMatrixes),
+      getHands: () => toDetectedHands(handLandmarker.detectForVideo(source, timestamp)),
+    };
+  }
+
+  dispose(): void {
+    this.landmarkers = null;
+    this.release?.();
+    this.release = null;
+  }
+}
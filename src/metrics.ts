@@ -0,0 +1,114 @@
+import { DetectedFaceData, DetectedHandData, FrameMetrics } from './types';
+import {
+  estimateHeadPose,
+  getOvalDistance,
+  measureExpression,
+  measureEyeBrightness,
+  measureFaceBrightness,
+  measureFaceColorCast,
+  measureFaceExposure,
+  measureFaceSharpness,
+  measureBackground,
+  measureHandFaceDistance,
+} from './utils';
+
+const MEDIAPIPE_NOSE_TIP = 4;
+
+export interface FrameMetricsInput {
+  source: CanvasImageSource;
+  frameWidth: number;
+  frameHeight: number;
+  face: DetectedFaceData;
+  /** Mãos do frame, ou função que as detecta sob demanda. */
+  hands: DetectedHandData[] | (() => DetectedHandData[]);
+  /** Deslocamento já medido pelo loop (px), ou null. */
+  stabilityDelta: number | null;
+  /** Tempo estável já medido pelo loop (ms), ou null para imagens estáticas. */
+  stableMs: number | null;
+  /** Valores já medidos em outro lugar (ex.: brilho calculado no Web Worker). */
+  precomputed?: Partial<FrameMetrics>;
+}
+
+/**
+ * Cria o objeto de métricas de um frame. Cada valor é calculado apenas no primeiro acesso
+ * e memorizado, então regras que abortam cedo não pagam pela amostragem de pixels.
+ * As propriedades são enumeráveis: `{ ...metrics }` produz um snapshot com todos os valores.
+ */
+export function createFrameMetrics(input: FrameMetricsInput): FrameMetrics {
+  const { source, frameWidth, frameHeight, face, hands } = input;
+  const { landmarks, boundingBox } = face;
+  const getHands = typeof hands === 'function' ? hands : () => hands;
+
+  let headPose: ReturnType<typeof estimateHeadPose> | undefined;
+  const getHeadPose = () => {
+    // Matriz de transformação facial (quando o detector a fornece) antes da estimativa 2D
+    if (headPose === undefined) headPose = face.headPose ?? estimateHeadPose(landmarks, frameWidth / frameHeight);
+    return headPose;
+  };
+  let expression: ReturnType<typeof measureExpression> | undefined;
+  const getExpression = () => {
+    if (expression === undefined) expression = measureExpression(landmarks);
+    return expression;
+  };
+
+  let exposure: ReturnType<typeof measureFaceExposure> | undefined;
+  const getExposure = () => {
+    if (exposure === undefined) {
+      // Metades divididas na ponta do nariz, que acompanha o giro da cabeça
+      exposure = measureFaceExposure(source, frameWidth, frameHeight, boundingBox, landmarks[MEDIAPIPE_NOSE_TIP].x);
+    }
+    return exposure;
+  };
+  let background: ReturnType<typeof measureBackground> | undefined;
+  const getBackground = () => {
+    if (background === undefined) background = measureBackground(source, frameWidth, frameHeight, boundingBox);
+    return background;
+  };
+
+  const computations: { [K in keyof FrameMetrics]: () => FrameMetrics[K] } = {
+    faceWidthRatio: () => boundingBox.width,
+    noseOvalDistance: () => {
+      const nose = landmarks[MEDIAPIPE_NOSE_TIP];
+      return getOvalDistance(nose.x, nose.y, frameWidth, frameHeight);
+    },
+    roll: () => getHeadPose()?.roll ?? null,
+    yaw: () => getHeadPose()?.yaw ?? null,
+    pitch: () => getHeadPose()?.pitch ?? null,
+    leftEyeOpenness: () => getExpression()?.leftEyeOpenness ?? null,
+    rightEyeOpenness: () => getExpression()?.rightEyeOpenness ?? null,
+    mouthOpenness: () => getExpression()?.mouthOpenness ?? null,
+    eyeBrightness: () => measureEyeBrightness(source, frameWidth, frameHeight, landmarks),
+    faceBrightness: () => measureFaceBrightness(source, frameWidth, frameHeight, boundingBox),
+    highlightClipping: () => getExposure()?.highlightClipping ?? null,
+    glareRatio: () => getExposure()?.glareRatio ?? null,
+    lightingImbalance: () => getExposure()?.lightingImbalance ?? null,
+    colorCast: () => measureFaceColorCast(source, frameWidth, frameHeight, boundingBox),
+    sharpness: () => measureFaceSharpness(source, frameWidth, frameHeight, boundingBox),
+    backgroundLuminance: () => getBackground()?.luminance ?? null,
+    backgroundDeviation: () => getBackground()?.deviation ?? null,
+    backgroundEdgeDensity: () => getBackground()?.edgeDensity ?? null,
+    handFaceDistance: () => {
+      const detectedHands = getHands();
+      return detectedHands.length > 0
+        ? Math.min(...detectedHands.map(hand => measureHandFaceDistance(hand, boundingBox)))
+        : null;
+    },
+    stabilityDelta: () => input.stabilityDelta,
+    stableMs: () => input.stableMs,
+  };
+
+  const metrics = {} as FrameMetrics;
+  (Object.keys(computations) as Array<keyof FrameMetrics>).forEach(key => {
+    let cached: { value: unknown } | null = null;
+    Object.defineProperty(metrics, key, {
+      enumerable: true,
+      get: () => {
+        if (!cached) {
+          cached = { value: input.precomputed && key in input.precomputed ? input.precomputed[key] : computations[key]() };
+        }
+        return cached.value;
+      },
+    });
+  });
+  return metrics;
+}
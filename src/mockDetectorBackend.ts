@@ -0,0 +1,115 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type {
+  DetectedFaceData,
+  DetectedHandData,
+  DetectorBackend,
+  DetectorResult,
+  FaceBlendshapes,
+  FrameMetrics,
+  HeadPose,
+  ModelsLoadedInfo,
+} from './types';
+
+/**
+ * One scripted frame played back by MockDetectorBackend.
+ */
+export interface MockDetectorFrame {
+  /**
+   * Faces in the frame, as DetectedFaceData (only the landmarks are used; the bounding box is
+   * recomputed) or plain landmark arrays, e.g. from createSyntheticFace().
+   */
+  faces?: Array<DetectedFaceData | NormalizedLandmark[]>;
+  /** Hands in the frame. */
+  hands?: DetectedHandData[];
+  /** Blendshape scores of each face (used with expressionEvaluator: 'blendshapes'). */
+  blendshapes?: FaceBlendshapes[];
+  /** Head pose of each face, as a landmarker with facial transformation matrices reports it. */
+  headPoses?: HeadPose[];
+  /**
+   * Pixel measurements to report, e.g. `{ faceBrightness: 120, eyeBrightness: 90 }`.
+   * Without a 2D canvas (jsdom) they cannot be measured and illumination stays pending.
+   */
+  metrics?: Partial<FrameMetrics>;
+  /** Play this frame for this many detections. Default: 1 */
+  repeat?: number;
+}
+
+export interface MockDetectorBackendOptions {
+  /** Start over after the last frame instead of repeating it. Default: false */
+  loop?: boolean;
+  /** Delegate reported by load(). Default: 'CPU' */
+  delegate?: 'GPU' | 'CPU';
+  /** Make load() reject with this error (to test the ERROR status). */
+  loadError?: Error;
+}
+
+/**
+ * Scriptable detector for tests: plays back preset faces/hands instead of running MediaPipe,
+ * so the status state machine runs without a camera, a GPU or model downloads (e.g. jsdom).
+ * After the last frame, the last frame keeps being returned (or playback loops).
+ */
+export class MockDetectorBackend implements DetectorBackend {
+  readonly usesVideoFrames = false;
+  private frames: MockDetectorFrame[] = [];
+  private frameIndex = 0;
+  private repeatCount = 0;
+  private detections = 0;
+  private disposed = false;
+
+  constructor(frames: MockDetectorFrame[] = [], private readonly options: MockDetectorBackendOptions = {}) {
+    this.push(...frames);
+  }
+
+  /** Number of frames detected so far. */
+  get detectCount(): number {
+    return this.detections;
+  }
+
+  /** Whether dispose() was called (the validator was stopped). */
+  get isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  /** Appends frames to the script (e.g. while the validator is running). */
+  push(...frames: MockDetectorFrame[]): void {
+    this.frames.push(...frames);
+  }
+
+  async load(): Promise<ModelsLoadedInfo> {
+    if (this.options.loadError) throw this.options.loadError;
+    this.disposed = false;
+    return { delegate: this.options.delegate ?? 'CPU' };
+  }
+
+  detect(): DetectorResult {
+    const frame = this.nextFrame();
+    this.detections += 1;
+    return {
+      faces: (frame?.faces ?? []).map(face => (Array.isArray(face) ? face : face.landmarks)),
+      getHands: () => frame?.hands ?? [],
+      metrics: frame?.metrics,
+      blendshapes: frame?.blendshapes,
+      headPoses: frame?.headPoses,
+    };
+  }
+
+  dispose(): void {
+    this.disposed = true;
+  }
+
+  private nextFrame(): MockDetectorFrame | null {
+    if (this.frames.length === 0) return null;
+    const frame = this.frames[this.frameIndex];
+
+    this.repeatCount += 1;
+    if (this.repeatCount >= (frame.repeat ?? 1)) {
+      this.repeatCount = 0;
+      if (this.frameIndex < this.frames.length - 1) {
+        this.frameIndex += 1;
+      } else if (this.options.loop) {
+        this.frameIndex = 0;
+      }
+    }
+    return frame;
+  }
+}
@@ -0,0 +1,261 @@
+import { FaceLandmarker, HandLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
+import type { ModelDelegate } from './types';
+
+/** WASM fileset e modelos .task publicados pelo Google (usados quando não configurados). */
+export const DEFAULT_MODEL_PATH = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm';
+export const DEFAULT_FACE_MODEL_ASSET_PATH =
+  'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+export const DEFAULT_HAND_MODEL_ASSET_PATH =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+export interface Landmarkers {
+  faceLandmarker: FaceLandmarker;
+  handLandmarker: HandLandmarker;
+  /** Delegate efetivamente usado (em 'auto' pode ter caído para CPU). */
+  delegate: 'GPU' | 'CPU';
+}
+
+/**
+ * Opções que definem uma instância dos modelos: instâncias do FaceValidator com as
+ * mesmas opções compartilham os mesmos FaceLandmarker/HandLandmarker.
+ */
+export interface ModelLoadOptions {
+  modelPath: string;
+  faceModelAssetPath?: string;
+  handModelAssetPath?: string;
+  faceModelAssetBuffer?: ArrayBuffer | Uint8Array;
+  handModelAssetBuffer?: ArrayBuffer | Uint8Array;
+  /** Se os assets configurados falharem, tenta de novo com os padrões da CDN. */
+  allowCdnFallback: boolean;
+  delegate: ModelDelegate;
+  runningMode: 'IMAGE' | 'VIDEO';
+  minDetectionConfidence: number;
+  minFaceVisibilityScore: number;
+  /** Pede ao FaceLandmarker os scores de blendshape (expressionEvaluator: 'blendshapes'). */
+  outputFaceBlendshapes?: boolean;
+}
+
+export interface LandmarkersHandle {
+  landmarkers: Promise<Landmarkers>;
+  /** Devolve a referência; pode ser chamada mais de uma vez. */
+  release: () => void;
+}
+
+interface RegistryEntry {
+  landmarkers: Promise<Landmarkers>;
+  /** Instâncias do FaceValidator usando os modelos. */
+  refCount: number;
+  /** preloadModels()/validateImage() mantêm os modelos carregados até releaseModels(). */
+  retained: boolean;
+}
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+const registry = new Map<string, RegistryEntry>();
+
+// Buffers não são serializáveis: entram na chave pela identidade
+const bufferIds = new WeakMap<object, number>();
+let nextBufferId = 1;
+
+function getBufferId(buffer?: ArrayBuffer | Uint8Array): number | null {
+  if (!buffer) return null;
+  let id = bufferIds.get(buffer);
+  if (id === undefined) {
+    id = nextBufferId++;
+    bufferIds.set(buffer, id);
+  }
+  return id;
+}
+
+function getRegistryKey(options: ModelLoadOptions): string {
+  return JSON.stringify([
+    options.modelPath,
+    options.faceModelAssetPath ?? null,
+    options.handModelAssetPath ?? null,
+    getBufferId(options.faceModelAssetBuffer),
+    getBufferId(options.handModelAssetBuffer),
+    options.allowCdnFallback,
+    options.delegate,
+    options.runningMode,
+    options.minDetectionConfidence,
+    options.minFaceVisibilityScore,
+    Boolean(options.outputFaceBlendshapes),
+  ]);
+}
+
+function getModelAsset(path: string | undefined, buffer: ArrayBuffer | Uint8Array | undefined, defaultPath: string) {
+  if (buffer) {
+    return { modelAssetBuffer: buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer) };
+  }
+  return { modelAssetPath: path || defaultPath };
+}
+
+function usesCustomAssets(options: ModelLoadOptions): boolean {
+  return Boolean(
+    options.modelPath !== DEFAULT_MODEL_PATH ||
+      options.faceModelAssetPath ||
+      options.handModelAssetPath ||
+      options.faceModelAssetBuffer ||
+      options.handModelAssetBuffer
+  );
+}
+
+/**
+ * Cria os landmarkers a partir dos assets configurados. Só recorre à CDN padrão se
+ * `allowCdnFallback` estiver ativo (implantações offline não devem sair da rede interna).
+ * Fora do registro (sem compartilhamento) é usado apenas pelo Web Worker.
+ */
+export async function createLandmarkers(options: ModelLoadOptions): Promise<Landmarkers> {
+  try {
+    return await createLandmarkersFromAssets(options);
+  } catch (err) {
+    if (!options.allowCdnFallback || !usesCustomAssets(options)) throw err;
+    return createLandmarkersFromAssets({
+      ...options,
+      modelPath: DEFAULT_MODEL_PATH,
+      faceModelAssetPath: undefined,
+      handModelAssetPath: undefined,
+      faceModelAssetBuffer: undefined,
+      handModelAssetBuffer: undefined,
+    });
+  }
+}
+
+/**
+ * Carrega o WASM e cria os landmarkers com o delegate configurado. Em 'auto', tenta GPU
+ * e recorre à CPU se a criação falhar (WebGL bloqueado, navegadores headless).
+ */
+async function createLandmarkersFromAssets(options: ModelLoadOptions): Promise<Landmarkers> {
+  // Initialize MediaPipe FilesetResolver
+  const vision = await FilesetResolver.forVisionTasks(options.modelPath);
+
+  if (options.delegate !== 'auto') {
+    return createLandmarkersWithDelegate(vision, options, options.delegate);
+  }
+  try {
+    return await createLandmarkersWithDelegate(vision, options, 'GPU');
+  } catch {
+    return createLandmarkersWithDelegate(vision, options, 'CPU');
+  }
+}
+
+/**
+ * Cria FaceLandmarker e HandLandmarker no modo de execução informado.
+ */
+async function createLandmarkersWithDelegate(
+  vision: WasmFileset,
+  options: ModelLoadOptions,
+  delegate: 'GPU' | 'CPU'
+): Promise<Landmarkers> {
+  // Initialize FaceLandmarker
+  const faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      ...getModelAsset(options.faceModelAssetPath, options.faceModelAssetBuffer, DEFAULT_FACE_MODEL_ASSET_PATH),
+      delegate
+    },
+    runningMode: options.runningMode,
+    numFaces: 2, // Detectar até 2 faces para MULTIPLE_FACES
+    minFaceDetectionConfidence: options.minDetectionConfidence,
+    minFacePresenceConfidence: options.minFaceVisibilityScore,
+    minTrackingConfidence: options.minFaceVisibilityScore,
+    outputFaceBlendshapes: Boolean(options.outputFaceBlendshapes),
+    // Ângulos reais da cabeça para a regra headPose
+    outputFacialTransformationMatrixes: true,
+  });
+
+  // Initialize HandLandmarker
+  try {
+    const handLandmarker = await HandLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        ...getModelAsset(options.handModelAssetPath, options.handModelAssetBuffer, DEFAULT_HAND_MODEL_ASSET_PATH),
+        delegate
+      },
+      runningMode: options.runningMode,
+      numHands: 2,
+      minHandDetectionConfidence: 0.5,
+      minHandPresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+    return { faceLandmarker, handLandmarker, delegate };
+  } catch (err) {
+    faceLandmarker.close();
+    throw err;
+  }
+}
+
+function getEntry(options: ModelLoadOptions): RegistryEntry {
+  const key = getRegistryKey(options);
+  let entry = registry.get(key);
+  if (!entry) {
+    const created: RegistryEntry = { landmarkers: createLandmarkers(options), refCount: 0, retained: false };
+    // Falha no carregamento: a próxima tentativa carrega de novo
+    created.landmarkers.catch(() => {
+      if (registry.get(key) === created) registry.delete(key);
+    });
+    registry.set(key, created);
+    entry = created;
+  }
+  return entry;
+}
+
+function disposeIfUnused(key: string, entry: RegistryEntry): void {
+  if (entry.refCount > 0 || entry.retained || registry.get(key) !== entry) return;
+  registry.delete(key);
+  entry.landmarkers
+    .then(({ faceLandmarker, handLandmarker }) => {
+      faceLandmarker.close();
+      handLandmarker.close();
+    })
+    .catch(() => {});
+}
+
+/**
+ * Obtém os modelos compartilhados (carregando se necessário) e conta a referência.
+ * Os modelos são fechados quando a última referência é devolvida e não estão retidos.
+ */
+export function acquireLandmarkers(options: ModelLoadOptions): LandmarkersHandle {
+  const key = getRegistryKey(options);
+  const entry = getEntry(options);
+  entry.refCount += 1;
+
+  let released = false;
+  return {
+    landmarkers: entry.landmarkers,
+    release: () => {
+      if (released) return;
+      released = true;
+      entry.refCount -= 1;
+      disposeIfUnused(key, entry);
+    },
+  };
+}
+
+/**
+ * Mantém os modelos carregados mesmo sem instâncias usando (até releaseRetainedLandmarkers()).
+ */
+export function retainLandmarkers(options: ModelLoadOptions): Promise<Landmarkers> {
+  const entry = getEntry(options);
+  entry.retained = true;
+  return entry.landmarkers;
+}
+
+/**
+ * Libera os modelos retidos; os que ainda estão em uso são fechados quando a última instância parar.
+ */
+export function releaseRetainedLandmarkers(): void {
+  registry.forEach((entry, key) => {
+    entry.retained = false;
+    disposeIfUnused(key, entry);
+  });
+}
+
+let lastVideoTimestamp = 0;
+
+/**
+ * Timestamp para detectForVideo. O MediaPipe exige timestamps estritamente crescentes por
+ * landmarker; instâncias que compartilham os modelos no mesmo frame usam este relógio comum.
+ */
+export function nextVideoTimestamp(): number {
+  lastVideoTimestamp = Math.max(performance.now(), lastVideoTimestamp + 0.001);
+  return lastVideoTimestamp;
+}
@@ -0,0 +1,54 @@
+import { createBackgroundRule } from './icao';
+import { createDefaultRules, resolveRules } from './rules';
+import { createSyntheticFace, type SyntheticFaceOptions } from './syntheticLandmarks';
+import { ValidationStatus, type ValidationRule, type ValidationRuleContext, type ValidationThresholds } from './types';
+import { estimateBoundingBox } from './utils';
+
+// Limites do perfil ICAO (roll 8°, yaw e pitch 5°)
+const ICAO_THRESHOLDS = { maxRollDegrees: 8, maxYawDegrees: 5, maxPitchDegrees: 5 } as ValidationThresholds;
+
+function evaluateHeadPose(face: SyntheticFaceOptions, headPose?: ValidationRuleContext['face']['headPose']) {
+  const rule = createDefaultRules().find(candidate => candidate.id === 'headPose')!;
+  const landmarks = createSyntheticFace(face);
+  return rule.evaluate({
+    frameWidth: 640,
+    frameHeight: 480,
+    face: { landmarks, boundingBox: estimateBoundingBox(landmarks), timestamp: 0, headPose },
+    thresholds: ICAO_THRESHOLDS,
+  } as ValidationRuleContext);
+}
+
+describe('headPose rule', () => {
+  it('enforces the pitch limit from the landmarks when there is no transformation matrix', () => {
+    expect(evaluateHeadPose({ pitch: 4 })).toBeNull();
+    expect(evaluateHeadPose({ pitch: 6 })).toBe(ValidationStatus.HEAD_NOT_STRAIGHT);
+    expect(evaluateHeadPose({ pitch: -6 })).toBe(ValidationStatus.HEAD_NOT_STRAIGHT);
+  });
+
+  it('prefers the transformation matrix angles when the detector provides them', () => {
+    expect(evaluateHeadPose({ pitch: 6 }, { yaw: 0, pitch: 2, roll: 0 })).toBeNull();
+  });
+});
+
+describe('background rule', () => {
+  const evaluate = (rule: ValidationRule | undefined, backgroundLuminance: number) =>
+    rule?.evaluate({
+      metrics: { backgroundLuminance, backgroundDeviation: 10, backgroundEdgeDensity: 0.02 },
+    } as ValidationRuleContext);
+
+  it('is configured by the icao thresholds under the icao profile', () => {
+    const rule = resolveRules([], [], 'icao', { minBackgroundLuminance: 130 }).find(({ id }) => id === 'background');
+
+    expect(evaluate(rule, 120)).toBe(ValidationStatus.BACKGROUND_NOT_UNIFORM);
+    expect(evaluate(rule, 140)).toBeNull();
+  });
+
+  it('replaces the profile rule when passed through rules, and can be disabled by id', () => {
+    const custom = createBackgroundRule({ minBackgroundLuminance: 90 });
+    const rules = resolveRules([custom], [], 'icao');
+
+    expect(rules.filter(({ id }) => id === 'background')).toEqual([custom]);
+    expect(evaluate(custom, 100)).toBeNull();
+    expect(resolveRules([custom], ['background']).find(({ id }) => id === 'background')?.enabled).toBe(false);
+  });
+});
@@ -0,0 +1,207 @@
+import {
+  ValidationStatus,
+  IcaoRequirements,
+  ValidationProfile,
+  ValidationRule,
+  ValidationRuleContext,
+  ValidationRuleFailure,
+  ValidationRuleId,
+} from './types';
+import {
+  checkFaceDistance,
+  hasDarkGlasses,
+  isFaceBoundingBoxInsideOval,
+  isFaceGeometryPlausible,
+  isHandNearFace,
+  isHeadPoseWithinLimits,
+  isHeadStraight,
+  isNeutralExpression,
+  isNeutralExpressionByBlendshapes,
+  isPointInsideOval,
+} from './utils';
+import { createIcaoRules } from './icao';
+
+const MEDIAPIPE_NOSE_TIP = 4;
+
+/**
+ * Cria as regras de validação padrão, na ordem em que o SDK sempre as aplicou.
+ * Cada chamada retorna objetos novos, então alterar `enabled` não afeta outras instâncias.
+ */
+export function createDefaultRules(): ValidationRule[] {
+  const rules: Array<ValidationRule & { id: ValidationRuleId }> = [
+    {
+      id: 'distance',
+      priority: 10,
+      evaluate: ({ face, thresholds }) => {
+        const distanceStatus = checkFaceDistance(
+          face.boundingBox,
+          thresholds.minFaceSizeFactor,
+          thresholds.maxFaceSizeFactor
+        );
+        if (distanceStatus === 'OK') return null;
+        return distanceStatus === 'TOO_CLOSE' ? ValidationStatus.TOO_CLOSE : ValidationStatus.TOO_FAR;
+      },
+    },
+    {
+      // Nariz no oval E bounding box dentro do oval (os dois critérios ao mesmo tempo)
+      id: 'centering',
+      priority: 20,
+      evaluate: ({ face, frameWidth, frameHeight }) => {
+        const nose = face.landmarks[MEDIAPIPE_NOSE_TIP];
+        const isNoseCentered = isPointInsideOval(nose.x, nose.y, frameWidth, frameHeight);
+        const isFaceInsideOval = isFaceBoundingBoxInsideOval(face.boundingBox, frameWidth, frameHeight);
+        return isNoseCentered && isFaceInsideOval ? null : ValidationStatus.OFF_CENTER;
+      },
+    },
+    {
+      id: 'geometry',
+      priority: 30,
+      evaluate: ({ face }) =>
+        isFaceGeometryPlausible(face.landmarks, face.boundingBox) ? null : ValidationStatus.FACE_OBSTRUCTED,
+    },
+    {
+      // Ângulos reais da matriz de transformação facial quando o detector os fornece,
+      // senão a estimativa pelos landmarks (os três eixos em graus, mais as proporções da face)
+      id: 'headPose',
+      priority: 40,
+      evaluate: ({ face, frameWidth, frameHeight, thresholds }) => {
+        const straight = face.headPose
+          ? isHeadPoseWithinLimits(face.headPose, thresholds)
+          : isHeadStraight(
+              face.landmarks,
+              thresholds.maxRollDegrees,
+              thresholds.maxYawDegrees,
+              thresholds.maxPitchDegrees,
+              frameWidth / frameHeight
+            );
+        return straight ? null : ValidationStatus.HEAD_NOT_STRAIGHT;
+      },
+    },
+    {
+      // Mão detectada próxima ao rosto
+      id: 'handProximity',
+      priority: 50,
+      evaluate: ({ face, hands, thresholds }) =>
+        hands.length > 0 && isHandNearFace(hands[0], face.boundingBox, thresholds.maxHandFaceDistance)
+          ? ValidationStatus.FACE_OBSTRUCTED
+          : null,
+    },
+    {
+      // Expressão não neutra (sorriso, boca aberta, olhos fechados). Blendshapes quando o
+      // modelo os forneceu (expressionEvaluator: 'blendshapes'), senão a geometria dos landmarks
+      id: 'expression',
+      priority: 60,
+      evaluate: ({ face, thresholds }) => {
+        const neutral = face.blendshapes
+          ? isNeutralExpressionByBlendshapes(face.blendshapes, thresholds.blendshapeThresholds)
+          : isNeutralExpression(face.landmarks);
+        return neutral ? null : ValidationStatus.NOT_NEUTRAL_EXPRESSION;
+      },
+    },
+    {
+      id: 'darkGlasses',
+      priority: 70,
+      evaluate: ({ metrics }) => (hasDarkGlasses(metrics.eyeBrightness) ? ValidationStatus.DARK_GLASSES : null),
+    },
+    {
+      id: 'illumination',
+      priority: 80,
+      evaluate: ({ metrics, thresholds }) => {
+        const brightness = metrics.faceBrightness;
+        // Sem contexto 2D não é possível medir: mantém o status "analisando"
+        if (brightness === null) return ValidationStatus.FACE_DETECTED;
+        return brightness < thresholds.minIlluminationThreshold ? ValidationStatus.POOR_ILLUMINATION : null;
+      },
+    },
+    {
+      // Realces estourados, reflexos e luz lateral; sem medição não bloqueia
+      id: 'exposure',
+      priority: 82,
+      evaluate: ({ metrics, thresholds }) => {
+        const { highlightClipping, glareRatio, lightingImbalance } = metrics;
+        if (highlightClipping !== null && highlightClipping > thresholds.maxHighlightClipping) {
+          return ValidationStatus.OVEREXPOSED;
+        }
+        if (glareRatio !== null && glareRatio > thresholds.maxGlareRatio) return ValidationStatus.GLARE_DETECTED;
+        if (lightingImbalance !== null && lightingImbalance > thresholds.maxLightingImbalance) {
+          return ValidationStatus.UNEVEN_LIGHTING;
+        }
+        return null;
+      },
+    },
+    {
+      // Luz colorida (sódio, LEDs) desviando a cor da pele; sem medição não bloqueia
+      id: 'colorCast',
+      priority: 83,
+      evaluate: ({ metrics, thresholds }) =>
+        metrics.colorCast !== null && metrics.colorCast > thresholds.maxColorCast ? ValidationStatus.COLOR_CAST : null,
+    },
+    {
+      // Rosto borrado (foco, movimento ou pouca luz); sem medição não bloqueia
+      id: 'sharpness',
+      priority: 85,
+      evaluate: ({ metrics, thresholds }) =>
+        metrics.sharpness !== null && metrics.sharpness < thresholds.minSharpness
+          ? ValidationStatus.IMAGE_BLURRY
+          : null,
+    },
+    {
+      // Imagens estáticas (stableMs null) não têm critério de estabilidade
+      id: 'stability',
+      priority: 90,
+      evaluate: ({ metrics, thresholds }) =>
+        metrics.stableMs !== null && metrics.stableMs < thresholds.stabilizationTimeThreshold
+          ? ValidationStatus.STAY_STILL
+          : null,
+    },
+  ];
+  return rules;
+}
+
+/**
+ * Combina as regras padrão (e as do perfil) com as regras do usuário (mesmo id substitui) e
+ * desabilita as listadas em `disabledRules`. Retorna ordenado por prioridade.
+ */
+export function resolveRules(
+  customRules: ValidationRule[] = [],
+  disabledRules: string[] = [],
+  profile: ValidationProfile = 'default',
+  icao: IcaoRequirements = {}
+): ValidationRule[] {
+  const profileRules = profile === 'icao' ? createIcaoRules(icao) : [];
+  const byId = new Map<string, ValidationRule>();
+  for (const rule of [...createDefaultRules(), ...profileRules, ...customRules]) {
+    byId.set(rule.id, disabledRules.includes(rule.id) ? { ...rule, enabled: false } : rule);
+  }
+  return sortRules(Array.from(byId.values()));
+}
+
+/**
+ * Ordena regras por prioridade (estável para prioridades iguais).
+ */
+export function sortRules(rules: ValidationRule[]): ValidationRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+/**
+ * Executa as regras habilitadas em ordem. Com `stopAtFirst` interrompe na primeira falha;
+ * caso contrário retorna todas as falhas (uma por regra).
+ */
+export function runRules(
+  rules: ValidationRule[],
+  context: ValidationRuleContext,
+  stopAtFirst: boolean
+): ValidationRuleFailure[] {
+  const failures: ValidationRuleFailure[] = [];
+  for (const rule of rules) {
+    if (rule.enabled === false) continue;
+    const status = rule.evaluate(context);
+    if (status === null) continue;
+    failures.push({ ruleId: rule.id, status });
+    if (stopAtFirst) break;
+  }
+  return failures;
+}
@@ -0,0 +1,85 @@
+import { DetectionPerformance } from './types';
+
+/** Peso da amostra mais recente na média móvel de latência. */
+const LATENCY_SMOOTHING = 0.2;
+/** Abaixo desta fração do orçamento a taxa volta a subir em direção ao alvo. */
+const RECOVERY_FACTOR = 0.6;
+const DECREASE_STEP = 0.75;
+const INCREASE_STEP = 1.1;
+const REPORT_INTERVAL_MS = 1000;
+
+/**
+ * Decide em quais frames do requestAnimationFrame a detecção roda. Parte do FPS alvo e
+ * reduz a taxa enquanto a latência média de inferência passa do orçamento.
+ */
+export class DetectionScheduler {
+  private currentFps: number;
+  private lastRunAt: number | null = null;
+  private averageLatency: number | null = null;
+  private windowStart: number | null = null;
+  private windowRuns = 0;
+  private achievedFps = 0;
+
+  constructor(
+    private readonly targetFps: number,
+    private readonly minFps: number,
+    private readonly latencyBudgetMs: number
+  ) {
+    this.currentFps = targetFps;
+  }
+
+  /** true se já passou o intervalo mínimo desde a última detecção. */
+  shouldRun(now: number): boolean {
+    if (this.targetFps <= 0 || this.lastRunAt === null) return true;
+    // Meio frame de tolerância para o intervalo não "escorregar" para o rAF seguinte
+    return now - this.lastRunAt >= 1000 / this.currentFps - 8;
+  }
+
+  /**
+   * Registra uma detecção e sua latência. Retorna as estatísticas ao fechar cada janela
+   * de 1s (para onPerformanceReport), ou null.
+   */
+  record(startedAt: number, latencyMs: number): DetectionPerformance | null {
+    this.lastRunAt = startedAt;
+    this.averageLatency =
+      this.averageLatency === null
+        ? latencyMs
+        : this.averageLatency + (latencyMs - this.averageLatency) * LATENCY_SMOOTHING;
+
+    if (this.targetFps > 0) {
+      if (this.averageLatency > this.latencyBudgetMs) {
+        this.currentFps = Math.max(this.minFps, this.currentFps * DECREASE_STEP);
+      } else if (this.averageLatency < this.latencyBudgetMs * RECOVERY_FACTOR) {
+        this.currentFps = Math.min(this.targetFps, this.currentFps * INCREASE_STEP);
+      }
+    }
+
+    if (this.windowStart === null) this.windowStart = startedAt;
+    this.windowRuns += 1;
+    const elapsed = startedAt - this.windowStart;
+    if (elapsed < REPORT_INTERVAL_MS) return null;
+
+    this.achievedFps = (this.windowRuns - 1) / (elapsed / 1000);
+    this.windowStart = startedAt;
+    this.windowRuns = 1;
+    return this.getStats();
+  }
+
+  getStats(): DetectionPerformance {
+    return {
+      fps: Math.round(this.achievedFps * 10) / 10,
+      scheduledFps: this.targetFps > 0 ? Math.round(this.currentFps * 10) / 10 : null,
+      latencyMs: this.averageLatency === null ? null : Math.round(this.averageLatency * 10) / 10,
+    };
+  }
+
+  /** Reinicia medições (após pause/resume a taxa volta ao alvo). */
+  reset(): void {
+    this.currentFps = this.targetFps;
+    this.lastRunAt = null;
+    this.averageLatency = null;
+    this.windowStart = null;
+    this.windowRuns = 0;
+    this.achievedFps = 0;
+  }
+}
@@ -0,0 +1,192 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type {
+  DetectedHandData,
+  FaceBlendshapes,
+  FrameMetrics,
+  HeadPose,
+  RecordedFrame,
+  SessionRecording,
+  SessionRecordingConfig,
+  ValidationCode,
+} from './types';
+
+export interface SessionRecorderOptions {
+  /** Frames kept; later frames are dropped and the recording is marked `truncated`. Default: 900 */
+  maxFrames?: number;
+  /** Decimal places kept for landmark coordinates. Default: 4 */
+  precision?: number;
+}
+
+/** Dados de um frame processado pelo loop, como o FaceValidator os entrega. */
+export interface SessionRecorderFrame {
+  timestamp: number;
+  width: number;
+  height: number;
+  faces: NormalizedLandmark[][];
+  /** Blendshapes das faces, quando usados pela regra de expressão. */
+  blendshapes?: FaceBlendshapes[];
+  /** Ângulos da cabeça das faces (matriz de transformação facial), se o detector os forneceu. */
+  headPoses?: HeadPose[];
+  /** Mãos e métricas do frame; null sem face única. */
+  hands: DetectedHandData[] | null;
+  metrics: FrameMetrics | null;
+  status: ValidationCode;
+}
+
+/**
+ * Converte landmarks gravados (x, y, z em sequência) de volta em NormalizedLandmark.
+ */
+export function unpackLandmarks(packed: number[]): NormalizedLandmark[] {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i + 2 < packed.length; i += 3) {
+    landmarks.push({ x: packed[i], y: packed[i + 1], z: packed[i + 2], visibility: 0 });
+  }
+  return landmarks;
+}
+
+/**
+ * Records what the live detection loop saw, frame by frame, as compact JSON for
+ * replaySession(). Pass it as the `recorder` option; a validator restarts the recording
+ * when it is created. Landmarks are rounded to `precision` before validation, so the
+ * recorded statuses are exactly what a replay reproduces.
+ */
+export class SessionRecorder {
+  private readonly maxFrames: number;
+  private readonly scale: number;
+  private config: SessionRecordingConfig | null = null;
+  private createdAt = new Date().toISOString();
+  private frames: RecordedFrame[] = [];
+  private truncated = false;
+  private pendingReset = false;
+
+  constructor(options: SessionRecorderOptions = {}) {
+    this.maxFrames = options.maxFrames ?? 900;
+    this.scale = Math.pow(10, options.precision ?? 4);
+  }
+
+  /** Number of frames recorded so far. */
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Starts a new recording with the validator's settings (called by FaceValidator).
+   */
+  begin(config: SessionRecordingConfig): void {
+    this.config = config;
+    this.clear();
+  }
+
+  /** Drops the recorded frames, keeping the settings. */
+  clear(): void {
+    this.createdAt = new Date().toISOString();
+    this.frames = [];
+    this.truncated = false;
+    this.pendingReset = false;
+  }
+
+  /**
+   * Arredonda os landmarks como serão gravados. O loop valida os valores arredondados,
+   * então a reprodução parte exatamente dos mesmos números.
+   */
+  quantizeLandmarks(landmarks: NormalizedLandmark[]): NormalizedLandmark[] {
+    return unpackLandmarks(this.packLandmarks(landmarks));
+  }
+
+  quantizeHands(hands: DetectedHandData[]): DetectedHandData[] {
+    return hands.map(hand => ({ handedness: hand.handedness, landmarks: this.quantizeLandmarks(hand.landmarks) }));
+  }
+
+  /** Arredonda os scores de blendshape como serão gravados. */
+  quantizeBlendshapes(blendshapes: FaceBlendshapes): FaceBlendshapes {
+    const quantized: FaceBlendshapes = {};
+    for (const [category, score] of Object.entries(blendshapes)) {
+      quantized[category] = this.round(score);
+    }
+    return quantized;
+  }
+
+  /** Arredonda os ângulos da cabeça como serão gravados. */
+  quantizeHeadPose({ yaw, pitch, roll }: HeadPose): HeadPose {
+    return { yaw: this.round(yaw), pitch: this.round(pitch), roll: this.round(roll) };
+  }
+
+  /** A detecção recomeçou (pause/resume): o próximo frame zera a estabilidade na reprodução. */
+  markReset(): void {
+    this.pendingReset = true;
+  }
+
+  record(frame: SessionRecorderFrame): void {
+    if (this.frames.length >= this.maxFrames) {
+      this.truncated = true;
+      return;
+    }
+    const recorded: RecordedFrame = {
+      t: frame.timestamp,
+      size: [frame.width, frame.height],
+      faces: frame.faces.map(landmarks => this.packLandmarks(landmarks)),
+      status: frame.status,
+    };
+    if (frame.blendshapes) recorded.blendshapes = frame.blendshapes;
+    if (frame.headPoses) recorded.headPoses = frame.headPoses;
+    if (frame.hands) {
+      recorded.hands = frame.hands.map(hand => ({
+        handedness: hand.handedness,
+        landmarks: this.packLandmarks(hand.landmarks),
+      }));
+    }
+    if (frame.metrics) {
+      recorded.brightness = [frame.metrics.faceBrightness, frame.metrics.eyeBrightness];
+      recorded.exposure = [
+        frame.metrics.highlightClipping,
+        frame.metrics.glareRatio,
+        frame.metrics.lightingImbalance,
+      ];
+      recorded.sharpness = frame.metrics.sharpness;
+      recorded.colorCast = frame.metrics.colorCast;
+      recorded.background = [
+        frame.metrics.backgroundLuminance,
+        frame.metrics.backgroundDeviation,
+        frame.metrics.backgroundEdgeDensity,
+      ];
+    }
+    if (this.pendingReset) {
+      recorded.reset = true;
+      this.pendingReset = false;
+    }
+    this.frames.push(recorded);
+  }
+
+  /**
+   * The recording so far. Throws if no validator has used this recorder yet.
+   */
+  getRecording(): SessionRecording {
+    if (!this.config) {
+      throw new Error('SessionRecorder has not been attached to a FaceValidator.');
+    }
+    return {
+      version: 1,
+      createdAt: this.createdAt,
+      config: this.config,
+      frames: this.frames.slice(),
+      truncated: this.truncated,
+    };
+  }
+
+  /** Allows `JSON.stringify(recorder)`. */
+  toJSON(): SessionRecording {
+    return this.getRecording();
+  }
+
+  private packLandmarks(landmarks: NormalizedLandmark[]): number[] {
+    const packed: number[] = [];
+    landmarks.forEach(({ x, y, z }) => {
+      packed.push(this.round(x), this.round(y), this.round(z ?? 0));
+    });
+    return packed;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * this.scale) / this.scale;
+  }
+}
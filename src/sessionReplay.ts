@@ -0,0 +1,94 @@
+import type {
+  DetectedHandData,
+  ReplayOptions,
+  ReplayResult,
+  ReplayedFrame,
+  SessionRecording,
+  ValidationThresholds,
+} from './types';
+import { FrameEvaluator } from './frameEvaluator';
+import { resolveRules } from './rules';
+import { unpackLandmarks } from './sessionRecorder';
+
+/**
+ * Feeds a SessionRecorder recording back through the validation logic of the live loop,
+ * without a camera or models. With the recorded settings the replayed status timeline
+ * matches the recorded one (`mismatches` is empty); pass `thresholds`/`rules` to see how
+ * a change would have behaved on the same session.
+ */
+export function replaySession(recording: SessionRecording, options: ReplayOptions = {}): ReplayResult {
+  const { config } = recording;
+  const rules = resolveRules(
+    options.rules,
+    options.disabledRules ?? config.disabledRules,
+    config.profile,
+    config.icao
+  );
+  // Gravações anteriores aos limites por eixo usavam maxHeadTiltDegrees para todos
+  const recorded: Partial<ValidationThresholds> = config.thresholds;
+  const evaluator = new FrameEvaluator({
+    thresholds: {
+      ...config.thresholds,
+      maxYawDegrees: recorded.maxYawDegrees ?? config.thresholds.maxHeadTiltDegrees,
+      maxPitchDegrees: recorded.maxPitchDegrees ?? config.thresholds.maxHeadTiltDegrees,
+      maxRollDegrees: recorded.maxRollDegrees ?? config.thresholds.maxHeadTiltDegrees,
+      ...options.thresholds,
+    },
+    stabilityMovementThreshold: config.stabilityMovementThreshold,
+    frameWidth: config.frameWidth,
+    frameHeight: config.frameHeight,
+    captureMode: config.captureMode,
+  });
+  // Gravações não têm pixels: regras nativas usam o brilho gravado
+  const source = options.source ?? ({} as CanvasImageSource);
+
+  const frames: ReplayedFrame[] = recording.frames.map(frame => {
+    if (frame.reset) evaluator.reset();
+    const hands: DetectedHandData[] = (frame.hands ?? []).map(hand => ({
+      handedness: hand.handedness,
+      landmarks: unpackLandmarks(hand.landmarks),
+    }));
+    const [faceBrightness, eyeBrightness] = frame.brightness ?? [null, null];
+    const [highlightClipping, glareRatio, lightingImbalance] = frame.exposure ?? [null, null, null];
+    const [backgroundLuminance, backgroundDeviation, backgroundEdgeDensity] = frame.background ?? [null, null, null];
+
+    const evaluation = evaluator.evaluate({
+      rules,
+      source,
+      sourceWidth: frame.size[0],
+      sourceHeight: frame.size[1],
+      faces: frame.faces.map(unpackLandmarks),
+      blendshapes: frame.blendshapes,
+      headPoses: frame.headPoses,
+      getHands: () => hands,
+      precomputed: frame.brightness
+        ? {
+            faceBrightness,
+            eyeBrightness,
+            highlightClipping,
+            glareRatio,
+            lightingImbalance,
+            sharpness: frame.sharpness ?? null,
+            colorCast: frame.colorCast ?? null,
+            backgroundLuminance,
+            backgroundDeviation,
+            backgroundEdgeDensity,
+          }
+        : undefined,
+      now: frame.t,
+      stopAtFirstFailure: false,
+    });
+    return {
+      t: frame.t,
+      recordedStatus: frame.status,
+      status: evaluation.status,
+      failures: evaluation.failures ?? [],
+    };
+  });
+
+  return {
+    frames,
+    statuses: frames.map(frame => frame.status),
+    mismatches: frames.filter(frame => frame.status !== frame.recordedStatus),
+  };
+}
@@ -0,0 +1,118 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { createSyntheticFace, type SyntheticFaceOptions } from './syntheticLandmarks';
+import { estimateBoundingBox, isFaceGeometryPlausible, isHeadStraight, isNeutralExpression } from './utils';
+
+const ASPECT_RATIO = 4 / 3;
+const LEFT_EYE = 33;
+const RIGHT_EYE = 263;
+const NOSE_TIP = 4;
+const FOREHEAD = 10;
+const CHIN = 152;
+
+const DEG = 180 / Math.PI;
+
+// Coordenadas em unidades da largura do frame: desfaz o y normalizado pela altura
+const toFrameUnits = (point: NormalizedLandmark, aspectRatio = ASPECT_RATIO) => ({
+  x: point.x,
+  y: point.y / aspectRatio,
+  z: point.z,
+});
+
+function vector(landmarks: NormalizedLandmark[], from: number, to: number, aspectRatio = ASPECT_RATIO) {
+  const a = toFrameUnits(landmarks[from], aspectRatio);
+  const b = toFrameUnits(landmarks[to], aspectRatio);
+  return { x: b.x - a.x, y: b.y - a.y, z: b.z - a.z };
+}
+
+const neutral = (options: SyntheticFaceOptions) => isNeutralExpression(createSyntheticFace(options));
+const plausible = (landmarks: NormalizedLandmark[]) => isFaceGeometryPlausible(landmarks, estimateBoundingBox(landmarks));
+
+describe('createSyntheticFace geometry', () => {
+  it.each([ASPECT_RATIO, 16 / 9, 1])('rolls the eye line by the requested angle (aspect ratio %d)', aspectRatio => {
+    const eyes = vector(createSyntheticFace({ roll: 20, aspectRatio }), LEFT_EYE, RIGHT_EYE, aspectRatio);
+
+    expect(Math.atan2(eyes.y, eyes.x) * DEG).toBeCloseTo(20, 6);
+  });
+
+  it('turns the eye line in depth by the requested yaw, keeping heights', () => {
+    const frontal = createSyntheticFace();
+    const turned = createSyntheticFace({ yaw: 30 });
+    const eyes = vector(turned, LEFT_EYE, RIGHT_EYE);
+
+    // Giro em torno do eixo vertical: o olho de x maior se afasta da câmera (z maior)
+    expect(Math.atan2(eyes.z, eyes.x) * DEG).toBeCloseTo(30, 6);
+    turned.forEach((point, index) => expect(point.y).toBeCloseTo(frontal[index].y, 9));
+    expect(turned[NOSE_TIP].x).toBeGreaterThan(frontal[NOSE_TIP].x);
+  });
+
+  it('tilts the forehead–chin line in depth by the requested pitch, keeping x', () => {
+    const frontal = createSyntheticFace();
+    const raised = createSyntheticFace({ pitch: 15 });
+    const before = vector(frontal, FOREHEAD, CHIN);
+    const after = vector(raised, FOREHEAD, CHIN);
+
+    // Queixo para cima: o queixo se aproxima da câmera em relação à testa (z menor)
+    const tilt = Math.atan2(after.z, after.y) - Math.atan2(before.z, before.y);
+    expect(-tilt * DEG).toBeCloseTo(15, 6);
+    raised.forEach((point, index) => expect(point.x).toBeCloseTo(frontal[index].x, 9));
+  });
+
+  it('moves the face rigidly, keeping every 3D distance', () => {
+    const frontal = createSyntheticFace();
+    const posed = createSyntheticFace({ yaw: 25, pitch: -10, roll: 15 });
+    const pairs = [
+      [LEFT_EYE, RIGHT_EYE],
+      [NOSE_TIP, CHIN],
+      [FOREHEAD, CHIN],
+      [LEFT_EYE, NOSE_TIP],
+    ];
+
+    pairs.forEach(([from, to]) => {
+      const a = vector(frontal, from, to);
+      const b = vector(posed, from, to);
+      expect(Math.hypot(b.x, b.y, b.z)).toBeCloseTo(Math.hypot(a.x, a.y, a.z), 9);
+    });
+  });
+
+  it('places the face center and scales the width as requested', () => {
+    const landmarks = createSyntheticFace({ center: { x: 0.4, y: 0.6 }, scale: 0.3 });
+    const box = estimateBoundingBox(landmarks);
+
+    expect(box.width).toBeCloseTo(0.3, 2);
+    expect(box.xMin + box.width / 2).toBeCloseTo(0.4, 2);
+  });
+});
+
+describe('synthetic faces against the validation checks', () => {
+  it('keeps the default face frontal, neutral and plausible', () => {
+    const landmarks = createSyntheticFace();
+
+    expect(isHeadStraight(landmarks)).toBe(true);
+    expect(isNeutralExpression(landmarks)).toBe(true);
+    expect(plausible(landmarks)).toBe(true);
+  });
+
+  it.each([
+    ['smile', 0.45, 0.55],
+    ['mouthOpen', 0.35, 0.45],
+    ['eyesClosed', 0.5, 0.65],
+  ] as const)('isNeutralExpression accepts %s %d and rejects %d', (expression, below, above) => {
+    expect(neutral({ [expression]: below })).toBe(true);
+    expect(neutral({ [expression]: above })).toBe(false);
+  });
+
+  it('isFaceGeometryPlausible accepts any expression of a frontal face', () => {
+    expect(plausible(createSyntheticFace({ smile: 1 }))).toBe(true);
+    expect(plausible(createSyntheticFace({ mouthOpen: 1 }))).toBe(true);
+  });
+
+  it('isFaceGeometryPlausible rejects a mouth squashed against the nose (covered by a hand)', () => {
+    const landmarks = createSyntheticFace();
+    const noseY = landmarks[NOSE_TIP].y;
+    // Contorno externo e centro dos lábios colapsados logo abaixo do nariz
+    const lips = [61, 291, 0, 17, 39, 269, 270, 409, 13, 14];
+    const covered = landmarks.map((point, index) => (lips.includes(index) ? { ...point, y: noseY + 0.005 } : point));
+
+    expect(plausible(covered)).toBe(false);
+  });
+});
@@ -0,0 +1,326 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { DetectedHandData } from './types';
+
+export interface SyntheticFaceOptions {
+  /** Head turn in degrees; positive moves the nose towards larger x. Default: 0 */
+  yaw?: number;
+  /** Head tilt up/down in degrees; positive = chin up. Default: 0 */
+  pitch?: number;
+  /** Head tilt sideways in degrees; positive lowers the eye with the larger x. Default: 0 */
+  roll?: number;
+  /** Face width (ear to ear) as a fraction of the frame width. Default: 0.25 */
+  scale?: number;
+  /** Normalized position of the face center. Default: { x: 0.5, y: 0.5 } */
+  center?: { x: number; y: number };
+  /** 0 = closed mouth, 1 = wide open (jaw dropped). Default: 0 */
+  mouthOpen?: number;
+  /** 0 = neutral, 1 = broad smile (mouth corners raised). Default: 0 */
+  smile?: number;
+  /** 0 = open eyes, 1 = closed eyelids. Default: 0 */
+  eyesClosed?: number;
+  /** Frame width / height, used to convert sizes to normalized y. Default: 4 / 3 */
+  aspectRatio?: number;
+}
+
+export interface SyntheticHandOptions {
+  /** Normalized position of the palm center. Default: { x: 0.5, y: 0.5 } */
+  center?: { x: number; y: number };
+  /** Hand length (wrist to middle fingertip) as a fraction of the frame width. Default: 0.2 */
+  scale?: number;
+  /** Rotation in the image plane, in degrees; 0 = fingers pointing up. Default: 0 */
+  rotation?: number;
+  /** 0 = open hand, 1 = fist. Default: 0 */
+  curl?: number;
+  /** Handedness label; 'Left' mirrors the hand. Default: 'Right' */
+  handedness?: 'Left' | 'Right';
+  /** Frame width / height, used to convert sizes to normalized y. Default: 4 / 3 */
+  aspectRatio?: number;
+}
+
+/*
+ * Malha canônica aproximada da face do MediaPipe (478 pontos), em unidades da largura da
+ * face (orelha a orelha = 1), origem no centro da face, y para baixo e z negativo em direção
+ * à câmera. Os pontos que o SDK usa (contorno, olhos, íris, sobrancelhas, nariz, lábios,
+ * bochechas) ficam nas posições anatômicas; os demais índices preenchem a superfície.
+ */
+const MESH_SIZE = 478;
+const FACE_OVAL = [
+  10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377,
+  152, 148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109,
+];
+/** Olhos: [canto externo, canto interno, pálpebra superior e inferior (de fora para dentro)]. */
+const EYES = [
+  { outer: 33, inner: 133, upper: [246, 161, 160, 159, 158, 157, 173], lower: [7, 163, 144, 145, 153, 154, 155], iris: 468, side: -1 },
+  { outer: 263, inner: 362, upper: [466, 388, 387, 386, 385, 384, 398], lower: [249, 390, 373, 374, 380, 381, 382], iris: 473, side: 1 },
+];
+const EYEBROWS = [
+  { upper: [70, 63, 105, 66, 107], lower: [46, 53, 52, 65, 55], side: -1 },
+  { upper: [300, 293, 334, 296, 336], lower: [276, 283, 282, 295, 285], side: 1 },
+];
+/** Linha média: [índice, y, protrusão à frente da superfície]. */
+const MIDLINE: Array<[number, number, number]> = [
+  [151, -0.55, 0], [9, -0.42, -0.01], [8, -0.33, -0.02], [168, -0.26, -0.03], [6, -0.18, -0.05],
+  [197, -0.1, -0.08], [195, -0.03, -0.11], [5, 0.02, -0.14], [4, 0.06, -0.15], [1, 0.075, -0.145],
+  [19, 0.1, -0.1], [94, 0.12, -0.06], [2, 0.13, -0.04], [164, 0.16, -0.02],
+  [18, 0.4, 0], [200, 0.46, 0], [199, 0.52, 0], [175, 0.59, 0],
+];
+/** Pontos laterais simétricos: [índice do lado x negativo, lado x positivo, |x|, y, protrusão]. */
+const PAIRED: Array<[number, number, number, number, number]> = [
+  [98, 327, 0.08, 0.1, -0.03], [64, 294, 0.1, 0.09, -0.02],
+  [116, 345, 0.38, -0.1, 0], [123, 352, 0.36, 0, 0], [50, 280, 0.28, 0.02, 0], [205, 425, 0.22, 0.12, 0],
+];
+/** Lábios, de canto a canto (x negativo para positivo). */
+const LIPS_OUTER_UPPER = [61, 185, 40, 39, 37, 0, 267, 269, 270, 409, 291];
+const LIPS_OUTER_LOWER = [146, 91, 181, 84, 17, 314, 405, 321, 375];
+const LIPS_INNER_UPPER = [78, 191, 80, 81, 82, 13, 312, 311, 310, 415, 308];
+const LIPS_INNER_LOWER = [95, 88, 178, 87, 14, 317, 402, 318, 324];
+const LIP_CENTER_UPPER = [0, 11, 12, 13];
+const LIP_CENTER_LOWER = [14, 15, 16, 17];
+
+const FACE_HALF_HEIGHT = 0.65;
+const SURFACE_DEPTH = 0.35;
+const MOUTH_Y = 0.26;
+const MOUTH_HALF_WIDTH = 0.2;
+const EYE_Y = -0.255;
+/** Centro de rotação da cabeça, atrás da face. */
+const PIVOT_Z = 0.3;
+
+type Point3 = { x: number; y: number; z: number };
+
+/** Profundidade da superfície da face (elipsoide) no ponto (x, y). */
+function surfaceZ(x: number, y: number): number {
+  const t = 1 - (x / 0.55) ** 2 - (y / 0.72) ** 2;
+  return -SURFACE_DEPTH * Math.sqrt(Math.max(0, t));
+}
+
+function onSurface(x: number, y: number, protrusion = 0): Point3 {
+  return { x, y, z: surfaceZ(x, y) + protrusion };
+}
+
+function clamp01(value: number | undefined): number {
+  return Math.min(1, Math.max(0, value ?? 0));
+}
+
+function buildFaceMesh(mouthOpen: number, smile: number, eyesClosed: number): Point3[] {
+  const mesh: Array<Point3 | undefined> = new Array(MESH_SIZE);
+  const set = (index: number, point: Point3) => {
+    mesh[index] = point;
+  };
+
+  // Contorno: mandíbula mais estreita que a testa
+  FACE_OVAL.forEach((index, i) => {
+    const angle = (2 * Math.PI * i) / FACE_OVAL.length;
+    const jaw = 1 - 0.15 * Math.max(0, -Math.cos(angle));
+    set(index, onSurface(0.5 * Math.sin(angle) * jaw, -FACE_HALF_HEIGHT * Math.cos(angle)));
+  });
+
+  MIDLINE.forEach(([index, y, protrusion]) => set(index, onSurface(0, y, protrusion)));
+  PAIRED.forEach(([negative, positive, x, y, protrusion]) => {
+    set(negative, onSurface(-x, y, protrusion));
+    set(positive, onSurface(x, y, protrusion));
+  });
+
+  // Olhos: pálpebra superior desce até a inferior conforme eyesClosed
+  EYES.forEach(({ outer, inner, upper, lower, iris, side }) => {
+    const outerX = side * 0.33;
+    const innerX = side * 0.11;
+    set(outer, onSurface(outerX, EYE_Y));
+    set(inner, onSurface(innerX, EYE_Y));
+    upper.forEach((index, i) => {
+      const f = (i + 1) / (upper.length + 1);
+      const lowerY = EYE_Y + 0.03 * Math.sin(Math.PI * f);
+      const openY = EYE_Y - 0.045 * Math.sin(Math.PI * f);
+      set(index, onSurface(outerX + (innerX - outerX) * f, openY + (lowerY - openY) * eyesClosed));
+    });
+    lower.forEach((index, i) => {
+      const f = (i + 1) / (lower.length + 1);
+      set(index, onSurface(outerX + (innerX - outerX) * f, EYE_Y + 0.03 * Math.sin(Math.PI * f)));
+    });
+    // Íris: centro e quatro pontos da borda (+x, topo, -x, base)
+    const irisX = (outerX + innerX) / 2;
+    const irisY = EYE_Y - 0.008;
+    const radius = 0.04;
+    set(iris, onSurface(irisX, irisY, -0.01));
+    [[radius, 0], [0, -radius], [-radius, 0], [0, radius]].forEach(([dx, dy], i) => {
+      set(iris + 1 + i, onSurface(irisX + dx, irisY + dy, -0.01));
+    });
+  });
+
+  EYEBROWS.forEach(({ upper, lower, side }) => {
+    [upper, lower].forEach((row, r) => {
+      row.forEach((index, i) => {
+        const f = i / (row.length - 1);
+        const x = side * (0.38 - 0.3 * f);
+        const arch = 0.03 * Math.sin(Math.PI * Math.min(1, f * 1.4));
+        set(index, onSurface(x, (r === 0 ? -0.39 : -0.36) - arch));
+      });
+    });
+  });
+
+  // Boca: sorriso sobe e abre os cantos; boca aberta desce o lábio inferior
+  const gap = 0.16 * mouthOpen;
+  const lift = 0.1 * smile;
+  const cornerX = MOUTH_HALF_WIDTH + 0.03 * smile;
+  const lipPoint = (f: number, offset: number, halfWidth: number): Point3 => {
+    const bump = Math.sin(Math.PI * f);
+    return onSurface((2 * f - 1) * halfWidth * (cornerX / MOUTH_HALF_WIDTH), MOUTH_Y + offset - lift * (1 - bump), -0.02 * bump);
+  };
+  const row = (indices: number[], from: number, count: number, offset: (bump: number) => number, halfWidth: number) => {
+    indices.forEach((index, i) => {
+      const f = (i + from) / (count - 1);
+      set(index, lipPoint(f, offset(Math.sin(Math.PI * f)), halfWidth));
+    });
+  };
+  row(LIPS_OUTER_UPPER, 0, 11, bump => -0.06 * Math.pow(bump, 0.6), MOUTH_HALF_WIDTH);
+  row(LIPS_OUTER_LOWER, 1, 11, bump => (0.07 + 0.9 * gap) * Math.pow(bump, 0.8), MOUTH_HALF_WIDTH);
+  row(LIPS_INNER_UPPER, 0, 11, bump => -0.005 * bump, MOUTH_HALF_WIDTH * 0.85);
+  row(LIPS_INNER_LOWER, 1, 11, bump => (0.005 + gap) * bump, MOUTH_HALF_WIDTH * 0.85);
+  // Pontos centrais entre as linhas externa e interna
+  const upperTop = mesh[LIP_CENTER_UPPER[0]] as Point3;
+  const upperBottom = mesh[LIP_CENTER_UPPER[3]] as Point3;
+  set(LIP_CENTER_UPPER[1], onSurface(0, upperTop.y + (upperBottom.y - upperTop.y) / 3, -0.02));
+  set(LIP_CENTER_UPPER[2], onSurface(0, upperTop.y + (2 * (upperBottom.y - upperTop.y)) / 3, -0.02));
+  const lowerTop = mesh[LIP_CENTER_LOWER[0]] as Point3;
+  const lowerBottom = mesh[LIP_CENTER_LOWER[3]] as Point3;
+  set(LIP_CENTER_LOWER[1], onSurface(0, lowerTop.y + (lowerBottom.y - lowerTop.y) / 3, -0.02));
+  set(LIP_CENTER_LOWER[2], onSurface(0, lowerTop.y + (2 * (lowerBottom.y - lowerTop.y)) / 3, -0.02));
+
+  // Demais índices: distribuição em girassol dentro do contorno
+  const free: number[] = [];
+  for (let i = 0; i < MESH_SIZE; i++) if (!mesh[i]) free.push(i);
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  free.forEach((index, i) => {
+    const r = Math.sqrt((i + 0.5) / free.length);
+    const theta = i * goldenAngle;
+    set(index, onSurface(0.42 * r * Math.cos(theta), 0.56 * r * Math.sin(theta)));
+  });
+
+  // Mandíbula acompanha a boca aberta (pontos de contorno e preenchimento abaixo da boca)
+  const lips = new Set([...LIPS_OUTER_UPPER, ...LIPS_OUTER_LOWER, ...LIPS_INNER_UPPER, ...LIPS_INNER_LOWER, 15, 16]);
+  return (mesh as Point3[]).map((point, index) => {
+    if (gap === 0 || lips.has(index) || point.y <= MOUTH_Y) return point;
+    return { ...point, y: point.y + gap * Math.min(1, (point.y - MOUTH_Y) / 0.08) };
+  });
+}
+
+/** Gira em torno de y (yaw), depois x (pitch), depois z (roll), com pivô atrás da face. */
+function rotate(point: Point3, yaw: number, pitch: number, roll: number): Point3 {
+  let { x, y } = point;
+  let z = point.z - PIVOT_Z;
+
+  const x1 = x * Math.cos(yaw) - z * Math.sin(yaw);
+  z = x * Math.sin(yaw) + z * Math.cos(yaw);
+  x = x1;
+
+  const y1 = y * Math.cos(pitch) + z * Math.sin(pitch);
+  z = -y * Math.sin(pitch) + z * Math.cos(pitch);
+  y = y1;
+
+  const x2 = x * Math.cos(roll) - y * Math.sin(roll);
+  y = x * Math.sin(roll) + y * Math.cos(roll);
+  x = x2;
+
+  return { x, y, z: z + PIVOT_Z };
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * Builds a plausible 478-point MediaPipe face mesh for tests: a head of the given pose, size
+ * and position, with optional expressions. The landmarks the SDK reads (face oval, eyes,
+ * irises, eyebrows, nose, lips, cheeks) sit at their anatomical positions; the remaining
+ * indices fill the face surface. Projection is orthographic with z on the x scale, as in
+ * MediaPipe.
+ *
+ * Angles are the true head rotation (yaw, then pitch, then roll) about a pivot 0.3 face
+ * widths behind the face center; landmark-based estimates (e.g. `metrics.yaw`) are
+ * approximations of it.
+ */
+export function createSyntheticFace(options: SyntheticFaceOptions = {}): NormalizedLandmark[] {
+  const scale = options.scale ?? 0.25;
+  const center = options.center ?? { x: 0.5, y: 0.5 };
+  const aspectRatio = options.aspectRatio ?? 4 / 3;
+  const yaw = (options.yaw ?? 0) * DEG;
+  const pitch = (options.pitch ?? 0) * DEG;
+  const roll = (options.roll ?? 0) * DEG;
+
+  const mesh = buildFaceMesh(clamp01(options.mouthOpen), clamp01(options.smile), clamp01(options.eyesClosed));
+  return mesh.map(point => {
+    const rotated = rotate(point, yaw, pitch, roll);
+    return {
+      x: center.x + rotated.x * scale,
+      y: center.y + rotated.y * scale * aspectRatio,
+      z: rotated.z * scale,
+      visibility: 0,
+    };
+  });
+}
+
+/*
+ * Mão direita aberta, palma para a câmera, dedos para cima, em unidades do comprimento
+ * da mão (punho à ponta do dedo médio = 1) e origem no centro da palma.
+ * Índices do MediaPipe: 0 punho; 1-4 polegar; 5-8 indicador; 9-12 médio; 13-16 anelar; 17-20 mínimo.
+ */
+const HAND_WRIST: [number, number] = [0, 0.25];
+const HAND_THUMB: Array<[number, number]> = [[-0.12, 0.13], [-0.22, 0], [-0.3, -0.12], [-0.36, -0.22]];
+const HAND_FINGERS: Array<Array<[number, number]>> = [
+  [[-0.12, -0.25], [-0.13, -0.45], [-0.135, -0.57], [-0.14, -0.67]],
+  [[-0.02, -0.27], [-0.02, -0.49], [-0.02, -0.62], [-0.02, -0.73]],
+  [[0.08, -0.25], [0.09, -0.45], [0.095, -0.57], [0.1, -0.67]],
+  [[0.17, -0.2], [0.19, -0.35], [0.2, -0.44], [0.21, -0.52]],
+];
+
+/**
+ * Dobra uma cadeia de articulações em direção à câmera: cada segmento após a base gira
+ * `angle` a mais que o anterior.
+ */
+function curlChain(joints: Array<[number, number]>, angle: number): Point3[] {
+  const points: Point3[] = [{ x: joints[0][0], y: joints[0][1], z: 0 }];
+  let bend = 0;
+  for (let i = 1; i < joints.length; i++) {
+    const dx = joints[i][0] - joints[i - 1][0];
+    const dy = joints[i][1] - joints[i - 1][1];
+    bend += angle;
+    const previous = points[i - 1];
+    // Segmento encurta no plano da imagem e avança para -z (em direção à câmera)
+    points.push({
+      x: previous.x + dx * Math.cos(bend),
+      y: previous.y + dy * Math.cos(bend),
+      z: previous.z - Math.hypot(dx, dy) * Math.sin(bend),
+    });
+  }
+  return points;
+}
+
+/**
+ * Builds the 21 MediaPipe hand landmarks of a synthetic hand (palm facing the camera),
+ * e.g. to place a hand over a synthetic face when testing the hand-near-face check.
+ */
+export function createSyntheticHand(options: SyntheticHandOptions = {}): DetectedHandData {
+  const scale = options.scale ?? 0.2;
+  const center = options.center ?? { x: 0.5, y: 0.5 };
+  const aspectRatio = options.aspectRatio ?? 4 / 3;
+  const rotation = (options.rotation ?? 0) * DEG;
+  const curl = clamp01(options.curl);
+  const handedness = options.handedness ?? 'Right';
+  const mirror = handedness === 'Left' ? -1 : 1;
+
+  const points: Point3[] = [
+    { x: HAND_WRIST[0], y: HAND_WRIST[1], z: 0 },
+    ...curlChain(HAND_THUMB, curl * 30 * DEG),
+    ...HAND_FINGERS.flatMap(finger => curlChain(finger, curl * 80 * DEG)),
+  ];
+
+  const landmarks = points.map(point => {
+    const x = point.x * mirror;
+    const rotatedX = x * Math.cos(rotation) - point.y * Math.sin(rotation);
+    const rotatedY = x * Math.sin(rotation) + point.y * Math.cos(rotation);
+    return {
+      x: center.x + rotatedX * scale,
+      y: center.y + rotatedY * scale * aspectRatio,
+      z: point.z * scale,
+      visibility: 0,
+    };
+  });
+  return { landmarks, handedness };
+}
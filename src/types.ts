@@ -1,4 +1,5 @@
 import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { SessionRecorder } from './sessionRecorder';
 
 export enum ValidationStatus {
   INITIALIZING = 'INITIALIZING',
@@ -11,16 +12,49 @@ export enum ValidationStatus {
   HEAD_NOT_STRAIGHT = 'HEAD_NOT_STRAIGHT',
   MULTIPLE_FACES = 'MULTIPLE_FACES',
   POOR_ILLUMINATION = 'POOR_ILLUMINATION',
+  OVEREXPOSED = 'OVEREXPOSED',
+  GLARE_DETECTED = 'GLARE_DETECTED',
+  UNEVEN_LIGHTING = 'UNEVEN_LIGHTING',
+  COLOR_CAST = 'COLOR_CAST',
   NOT_NEUTRAL_EXPRESSION = 'NOT_NEUTRAL_EXPRESSION',
   DARK_GLASSES = 'DARK_GLASSES',
+  IMAGE_BLURRY = 'IMAGE_BLURRY',
+  ICAO_EYE_DISTANCE = 'ICAO_EYE_DISTANCE',
+  ICAO_NOT_CENTERED = 'ICAO_NOT_CENTERED',
+  ICAO_HEAD_HEIGHT = 'ICAO_HEAD_HEIGHT',
+  ICAO_EYE_LINE = 'ICAO_EYE_LINE',
+  BACKGROUND_NOT_UNIFORM = 'BACKGROUND_NOT_UNIFORM',
   STAY_STILL = 'STAY_STILL',
+  READY_TO_CAPTURE = 'READY_TO_CAPTURE',
   CAPTURING = 'CAPTURING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR',
 }
 
+/**
+ * Which way to move, reported with HEAD_NOT_STRAIGHT and OFF_CENTER. Left/right refer to the
+ * preview as the user sees it (mirrored when `mirror` is true).
+ */
+export enum ValidationGuidance {
+  TURN_LEFT = 'TURN_LEFT',
+  TURN_RIGHT = 'TURN_RIGHT',
+  CHIN_UP = 'CHIN_UP',
+  CHIN_DOWN = 'CHIN_DOWN',
+  LEVEL_HEAD = 'LEVEL_HEAD',
+  MOVE_LEFT = 'MOVE_LEFT',
+  MOVE_RIGHT = 'MOVE_RIGHT',
+  MOVE_UP = 'MOVE_UP',
+  MOVE_DOWN = 'MOVE_DOWN',
+  MOVE_BACK = 'MOVE_BACK',
+}
+
 export type SupportedLocale = 'pt-BR' | 'en' | 'es';
 
+/**
+ * A built-in ValidationStatus or a custom code reported by a user-defined validation rule.
+ */
+export type ValidationCode = ValidationStatus | (string & {});
+
 export interface FaceValidatorOptions {
   /** Optional container element or selector to auto-render UI and media elements. */
   container?: HTMLElement | string;
@@ -34,6 +68,48 @@ export interface FaceValidatorOptions {
   videoConstraints?: MediaTrackConstraints;
   /** Optional path to MediaPipe models WASM files. Default: auto-detected from CDN */
   modelPath?: string;
+  /** URL of the face landmarker `.task` model. Default: Google's storage.googleapis.com model */
+  faceModelAssetPath?: string;
+  /** URL of the hand landmarker `.task` model. Default: Google's storage.googleapis.com model */
+  handModelAssetPath?: string;
+  /** Face landmarker model already in memory (takes precedence over faceModelAssetPath). */
+  faceModelAssetBuffer?: ArrayBuffer | Uint8Array;
+  /** Hand landmarker model already in memory (takes precedence over handModelAssetPath). */
+  handModelAssetBuffer?: ArrayBuffer | Uint8Array;
+  /**
+   * Retry with the public CDN assets when the configured `modelPath`/model assets fail to load.
+   * Keep it off for offline deployments. Default: false
+   */
+  allowCdnFallback?: boolean;
+  /**
+   * MediaPipe inference delegate. 'auto' tries GPU and falls back to CPU when the GPU
+   * delegate cannot be created (blocklisted WebGL driver, headless browser). Default: 'auto'
+   */
+  delegate?: ModelDelegate;
+  /**
+   * URL of the inference worker bundle (`face-validator-sdk/worker`, i.e.
+   * dist/face-validator-sdk.worker.js). When set, MediaPipe inference and pixel sampling
+   * run in a Web Worker and frames are transferred as ImageBitmap. Default: main thread
+   */
+  workerUrl?: string | URL;
+  /**
+   * Custom source of landmarks (e.g. MockDetectorBackend in tests). Replaces MediaPipe and
+   * the model options above; the validator disposes it on stop(). Default: MediaPipe
+   */
+  detector?: DetectorBackend;
+  /**
+   * Records every processed frame (landmarks, hands, brightness and background samples and
+   * status) for replaySession(). These are then measured on every single-face frame.
+   */
+  recorder?: SessionRecorder;
+  /**
+   * Validation profile. 'icao' adds the ICAO 9303 / ISO/IEC 19794-5 passport-photo checks,
+   * limits head tilt to 8° and crops the capture to the compliant 35x45 frame (unless
+   * `maxHeadTiltDegrees` / `captureOutput.crop` are set). Default: 'default'
+   */
+  profile?: ValidationProfile;
+  /** Requirements checked by the 'icao' profile. Default: the ISO/IEC 19794-5 values */
+  icao?: IcaoRequirements;
   /** Video element for the camera stream. */
   videoElement?: HTMLVideoElement;
   /** Optional canvas for visual feedback (e.g. face outline). */
@@ -46,34 +122,689 @@ export interface FaceValidatorOptions {
   locale?: SupportedLocale;
   /** Optional override for specific status messages. */
   customMessages?: Partial<Record<ValidationStatus, string>>;
-  /** Callback on each validation status update. */
-  onStatusUpdate?: (status: ValidationStatus, message: string) => void;
-  /** Callback when selfie is successfully captured (receives Blob). */
-  onCaptureSuccess?: (imageBlob: Blob) => void;
+  /**
+   * Callback on each validation status update (custom rules may report their own codes).
+   * `details` carries the head pose measured in the frame behind the status.
+   */
+  onStatusUpdate?: (status: ValidationCode, message: string, details: StatusUpdateDetails) => void;
+  /** Callback with a structured report of every processed frame (metrics and pass/fail per rule). */
+  onFrameReport?: (report: ValidationReport) => void;
+  /** Callback when the MediaPipe models are ready, with the delegate actually in use. */
+  onModelsLoaded?: (info: ModelsLoadedInfo) => void;
+  /** Callback about once per second with the achieved detection rate and latency. */
+  onPerformanceReport?: (performance: DetectionPerformance) => void;
+  /** Callback when selfie is successfully captured (receives Blob and capture details). */
+  onCaptureSuccess?: (imageBlob: Blob, result: CaptureResult) => void;
   /** Callback on error. */
   onError?: (errorType: ValidationStatus, error: Error) => void;
   /** Optional min detection confidence (0–1). Default: 0.5 */
   minDetectionConfidence?: number;
   /** Optional min brightness (0–255). Default: 70 */
   minIlluminationThreshold?: number;
+  /** Max fraction of face pixels with clipped highlights (0-1) before OVEREXPOSED. Default: 0.1 */
+  maxHighlightClipping?: number;
+  /** Max fraction of face pixels with specular glare (0-1) before GLARE_DETECTED. Default: 0.03 */
+  maxGlareRatio?: number;
+  /**
+   * Max brightness difference between the left and right halves of the face, as
+   * 1 - darker/brighter (0-1), before UNEVEN_LIGHTING. Default: 0.4
+   */
+  maxLightingImbalance?: number;
+  /**
+   * Max distance of the face skin chromaticity (r, g) from skin under neutral light before
+   * COLOR_CAST (sodium lamps, colored LEDs). Default: 0.1
+   */
+  maxColorCast?: number;
   /** Optional min face size factor. Default: 0.25 */
   minFaceSizeFactor?: number;
   /** Optional max face size factor. Default: 0.65 */
   maxFaceSizeFactor?: number;
+  /**
+   * Minimum face sharpness (variance of the Laplacian of the face, resized to 128 px wide).
+   * Lower values reject softer images (autofocus hunting, motion or low-light blur). Default: 15
+   */
+  minSharpness?: number;
+  /**
+   * How the `expression` rule decides that the expression is neutral. 'blendshapes' asks the
+   * face landmarker for blendshape scores and compares them with `blendshapeThresholds`
+   * (robust to camera distance and beards); frames without scores fall back to 'geometric'
+   * (landmark distances). Default: 'geometric'
+   */
+  expressionEvaluator?: ExpressionEvaluator;
+  /**
+   * Highest accepted score (0-1) per MediaPipe blendshape category, used with
+   * expressionEvaluator: 'blendshapes'. Merged with the defaults: mouthSmileLeft/Right 0.5,
+   * jawOpen 0.3, eyeBlinkLeft/Right 0.5, browInnerUp 0.6. Any other category can be added.
+   */
+  blendshapeThresholds?: Record<string, number>;
+  /** 'auto' captures as soon as every check passes; 'manual' waits for capture() (shutter button). Default: 'auto' */
+  captureMode?: 'auto' | 'manual';
   /** Optional stable time before capture (ms). Default: 1000 */
   stabilizationTimeThreshold?: number;
+  /**
+   * Number of valid frames kept during the stabilization window; the highest scoring one
+   * (sharpness, open eyes, centered pose, brightness) is captured. 0 = capture the current frame. Default: 0
+   */
+  bestFrameBufferSize?: number;
+  /** Format, size and crop of the captured image. Default: full-frame JPEG at quality 0.95 */
+  captureOutput?: CaptureOutputOptions;
+  /**
+   * Keep the camera stream open after a capture, so restart() starts validating again
+   * immediately (only for cameras opened by the SDK). Default: false
+   */
+  keepCameraOpen?: boolean;
   /** Optional movement tolerance (px). Default: 5 */
   stabilityMovementThreshold?: number;
+  /** Detection rate the scheduler aims for; 0 = detect on every animation frame. Default: 30 */
+  targetDetectionFps?: number;
+  /** Lowest rate the scheduler may fall back to. Default: 5 */
+  minDetectionFps?: number;
+  /** Average per-frame processing time above which the detection rate is lowered (ms). Default: 50 */
+  maxInferenceLatencyMs?: number;
   /** Min face visibility score to accept (below = FACE_OBSTRUCTED). Default: 0.5 */
   minFaceVisibilityScore?: number;
-  /** Max head tilt in degrees (roll and yaw only). Default: 28 */
+  /** Head-pose limit in degrees for maxYawDegrees, maxPitchDegrees and maxRollDegrees when they are not set. Default: 30 */
   maxHeadTiltDegrees?: number;
+  /** Max head turn left/right in degrees. Default: maxHeadTiltDegrees (5 with profile: 'icao') */
+  maxYawDegrees?: number;
+  /**
+   * Max head nod up/down in degrees. Only checked when the landmarker reports the facial
+   * transformation matrix (MediaPipe does). Default: maxHeadTiltDegrees (5 with profile: 'icao')
+   */
+  maxPitchDegrees?: number;
+  /** Max sideways head tilt in degrees. Default: maxHeadTiltDegrees */
+  maxRollDegrees?: number;
   /** Max distance from hand to face (normalized, 0-1). Default: 0.15 */
   maxHandFaceDistance?: number;
+  /** Extra validation rules. A rule with the same id as a built-in rule replaces it. */
+  rules?: ValidationRule[];
+  /** Ids of rules to skip (e.g. ['darkGlasses', 'expression']). See ValidationRuleId. */
+  disabledRules?: string[];
   /** Optional debug mode. Default: false */
   debugMode?: boolean;
 }
 
+/**
+ * Delegate requested for the MediaPipe models.
+ */
+export type ModelDelegate = 'GPU' | 'CPU' | 'auto';
+
+/**
+ * Head rotation in degrees. Signs follow FrameMetrics: yaw > 0 = turned toward the image's
+ * right side, pitch > 0 = chin up, roll > 0 = top of the head tilted toward the image's right side.
+ */
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+/**
+ * Third argument of onStatusUpdate.
+ */
+export interface StatusUpdateDetails {
+  /** Head pose measured in the frame behind the status; null without exactly one face. */
+  headPose: HeadPose | null;
+  /**
+   * Direction to fix HEAD_NOT_STRAIGHT or OFF_CENTER; null for other statuses. The status
+   * message is already the directional one unless `customMessages` overrides the status.
+   */
+  guidance: ValidationGuidance | null;
+}
+
+/**
+ * Reported by onModelsLoaded and FaceValidator.preloadModels() once the models are ready.
+ */
+export interface ModelsLoadedInfo {
+  /** Delegate actually in use ('auto' resolves to 'GPU' or 'CPU'). */
+  delegate: 'GPU' | 'CPU';
+}
+
+/**
+ * Options that define where the MediaPipe WASM fileset and models are loaded from.
+ */
+export type ModelAssetOptionKey =
+  | 'modelPath'
+  | 'faceModelAssetPath'
+  | 'handModelAssetPath'
+  | 'faceModelAssetBuffer'
+  | 'handModelAssetBuffer'
+  | 'allowCdnFallback'
+  | 'delegate';
+
+/**
+ * Options of FaceValidator.preloadModels(). Use the same values as the validators that
+ * should reuse the preloaded models.
+ */
+export type PreloadModelsOptions = Pick<
+  FaceValidatorOptions,
+  ModelAssetOptionKey | 'minDetectionConfidence' | 'minFaceVisibilityScore' | 'expressionEvaluator'
+>;
+
+/**
+ * Options of FaceValidator.pause().
+ */
+export interface PauseOptions {
+  /** Keep the camera stream open while paused (only for cameras opened by the SDK). Default: true */
+  keepCamera?: boolean;
+}
+
+/**
+ * How the captured image (and each capture candidate) is encoded.
+ */
+export interface CaptureOutputOptions {
+  /** Image format. Browsers without WebP encoding fall back to PNG. Default: 'image/jpeg' */
+  type?: 'image/jpeg' | 'image/png' | 'image/webp';
+  /** Encoder quality, 0-1 (JPEG and WebP only). Default: 0.95 */
+  quality?: number;
+  /** Downscale the image to at most this width (never upscales). Default: no limit */
+  maxWidth?: number;
+  /** Downscale the image to at most this height (never upscales). Default: no limit */
+  maxHeight?: number;
+  /**
+   * Region saved: the whole frame, the bounds of the framing oval, the detected face box, or
+   * the 35x45 passport-photo frame placed from the landmarks (see IcaoRequirements).
+   * Default: 'full' ('icao' with the 'icao' profile)
+   */
+  crop?: 'full' | 'oval' | 'faceBox' | 'icao';
+  /** Margin added on each side of the 'oval'/'faceBox' crop, as a fraction of its size. Default: 0.2 */
+  padding?: number;
+  /** Flip the image horizontally, so it matches the mirrored preview. Default: false */
+  mirror?: boolean;
+  /**
+   * Size budget in bytes (e.g. 500_000 for APIs that reject larger uploads). Quality is lowered
+   * (JPEG/WebP, down to 0.5) and then the resolution, until the image fits. Default: no limit
+   */
+  maxBytes?: number;
+  /** Smallest acceptable width (px) of the image; the capture fails with CaptureSizeError below it. */
+  minWidth?: number;
+  /** Smallest acceptable height (px) of the image; the capture fails with CaptureSizeError below it. */
+  minHeight?: number;
+}
+
+/**
+ * Options of the one-shot FaceValidator.capture(). `captureMode` is always 'auto'.
+ * Without `container` and `videoElement`, the camera runs on a detached video element.
+ */
+export interface CaptureOptions extends FaceValidatorOptions {
+  /** Aborts the capture (rejects with CaptureAbortedError and releases the camera). */
+  signal?: AbortSignal;
+  /** Rejects with CaptureTimeoutError if no valid frame is captured within this time (ms). */
+  timeoutMs?: number;
+}
+
+/**
+ * Static image accepted by FaceValidator.validateImage().
+ */
+export type ImageValidationSource = Blob | HTMLImageElement | ImageBitmap | ImageData;
+
+/**
+ * Options accepted by FaceValidator.validateImage(). Same meaning and defaults as in FaceValidatorOptions.
+ */
+export type ImageValidationOptions = Pick<
+  FaceValidatorOptions,
+  | ModelAssetOptionKey
+  | 'minDetectionConfidence'
+  | 'minIlluminationThreshold'
+  | 'maxHighlightClipping'
+  | 'maxGlareRatio'
+  | 'maxLightingImbalance'
+  | 'maxColorCast'
+  | 'minFaceSizeFactor'
+  | 'maxFaceSizeFactor'
+  | 'minFaceVisibilityScore'
+  | 'maxHeadTiltDegrees'
+  | 'maxYawDegrees'
+  | 'maxPitchDegrees'
+  | 'maxRollDegrees'
+  | 'maxHandFaceDistance'
+  | 'minSharpness'
+  | 'expressionEvaluator'
+  | 'blendshapeThresholds'
+  | 'rules'
+  | 'disabledRules'
+  | 'profile'
+  | 'icao'
+>;
+
+/**
+ * Ids of the built-in validation rules, in their default order.
+ */
+export type ValidationRuleId =
+  | 'distance'
+  | 'centering'
+  | 'geometry'
+  | 'headPose'
+  | 'handProximity'
+  | 'expression'
+  | 'darkGlasses'
+  | 'illumination'
+  | 'exposure'
+  | 'colorCast'
+  | 'sharpness'
+  | 'stability';
+
+/**
+ * Ids of the rules added by the 'icao' profile, in their default order. `background` is the
+ * createBackgroundRule() check, configured with the profile's thresholds.
+ */
+export type IcaoRuleId = 'icaoEyeDistance' | 'icaoCentering' | 'icaoHeadHeight' | 'icaoEyeLine' | 'background';
+
+/**
+ * Expression check used by the `expression` rule. See FaceValidatorOptions.expressionEvaluator.
+ */
+export type ExpressionEvaluator = 'geometric' | 'blendshapes';
+
+/**
+ * MediaPipe blendshape scores of a face, by category name (0-1),
+ * e.g. `{ jawOpen: 0.02, mouthSmileLeft: 0.1, eyeBlinkLeft: 0.05 }`.
+ */
+export type FaceBlendshapes = Record<string, number>;
+
+/**
+ * Set of checks applied by the validator. See FaceValidatorOptions.profile.
+ */
+export type ValidationProfile = 'default' | 'icao';
+
+/**
+ * Thresholds of the plain-background check (the `background` rule). See createBackgroundRule().
+ */
+export interface BackgroundRequirements {
+  /** Minimum mean luminance of the background beside and above the head (0-255). Default: 110 */
+  minBackgroundLuminance?: number;
+  /** Maximum standard deviation of the background colors (0-255). Default: 28 */
+  maxBackgroundDeviation?: number;
+  /** Maximum fraction of background pixels on an edge (0-1). Default: 0.08 */
+  maxBackgroundEdgeDensity?: number;
+}
+
+/**
+ * Photo geometry required by the 'icao' profile. Ratios refer to the 35x45 crop that the
+ * validator places around the face; defaults follow ISO/IEC 19794-5 (full frontal image).
+ * The background thresholds configure the profile's `background` rule.
+ */
+export interface IcaoRequirements extends BackgroundRequirements {
+  /** Minimum head height (chin to crown) as a fraction of the photo height. Default: 0.7 */
+  minHeadHeightRatio?: number;
+  /** Maximum head height (chin to crown) as a fraction of the photo height. Default: 0.8 */
+  maxHeadHeightRatio?: number;
+  /** Lowest eye line, measured from the bottom edge as a fraction of the photo height. Default: 0.5 */
+  minEyeLineRatio?: number;
+  /** Highest eye line, measured from the bottom edge as a fraction of the photo height. Default: 0.7 */
+  maxEyeLineRatio?: number;
+  /** Minimum distance between the eye centers, in pixels of the camera frame. Default: 90 */
+  minEyeDistancePx?: number;
+  /** Maximum horizontal offset of the face midline from the photo center, as a fraction of its width. Default: 0.05 */
+  maxCenterOffset?: number;
+}
+
+/**
+ * Resolved thresholds available to validation rules.
+ */
+export interface ValidationThresholds {
+  minIlluminationThreshold: number;
+  maxHighlightClipping: number;
+  maxGlareRatio: number;
+  maxLightingImbalance: number;
+  maxColorCast: number;
+  minFaceSizeFactor: number;
+  maxFaceSizeFactor: number;
+  maxHeadTiltDegrees: number;
+  maxYawDegrees: number;
+  maxPitchDegrees: number;
+  maxRollDegrees: number;
+  maxHandFaceDistance: number;
+  minSharpness: number;
+  /** Highest accepted score per blendshape category (defaults merged in). */
+  blendshapeThresholds: Record<string, number>;
+  stabilizationTimeThreshold: number;
+}
+
+/**
+ * Data passed to each validation rule for the face being validated.
+ */
+export interface ValidationRuleContext {
+  /** Frame being validated (video element or still image). */
+  source: CanvasImageSource;
+  /** Frame width in pixels. */
+  frameWidth: number;
+  /** Frame height in pixels. */
+  frameHeight: number;
+  /** The (single) detected face. */
+  face: DetectedFaceData;
+  /**
+   * Hands detected in the same frame. In the live loop hand detection only runs when a rule
+   * first reads this field, so it is skipped while an earlier check is failing.
+   */
+  hands: DetectedHandData[];
+  /** Raw measurements of the face (computed lazily on first access). */
+  metrics: FrameMetrics;
+  /** Resolved thresholds of the validator. */
+  thresholds: ValidationThresholds;
+}
+
+/**
+ * A single validation check. Rules run in ascending priority; the first failure
+ * becomes the live status.
+ */
+export interface ValidationRule {
+  /** Unique id. Built-in ids are listed in ValidationRuleId. */
+  id: string;
+  /** Lower runs first. Built-in rules use 10 to 90. */
+  priority: number;
+  /** Disabled rules are skipped. Default: true */
+  enabled?: boolean;
+  /** Returns the failing status/code, or null when the check passes. */
+  evaluate: (context: ValidationRuleContext) => ValidationCode | null;
+  /** Message shown for custom codes returned by this rule (single string or per locale). */
+  message?: string | Partial<Record<SupportedLocale, string>>;
+}
+
+/**
+ * Raw measurements behind the validation checks. Values are null when they
+ * cannot be measured (e.g. no hands in frame, no previous frame, still image).
+ */
+export interface FrameMetrics {
+  /** Face bounding box width relative to frame width (0-1). Compared to min/maxFaceSizeFactor. */
+  faceWidthRatio: number;
+  /** Squared normalized distance from the nose tip to the oval center (0 = center, 1 = oval edge; must be <= 0.6). */
+  noseOvalDistance: number;
+  /**
+   * Head roll in degrees (positive = top of the head tilted toward the image's right side), from
+   * the facial transformation matrix when available, otherwise estimated from the landmarks.
+   */
+  roll: number | null;
+  /** Head yaw in degrees (positive = turned toward the image's right side). Same source as roll. */
+  yaw: number | null;
+  /** Head pitch in degrees (positive = chin up). Same source as roll. */
+  pitch: number | null;
+  /** Left eyelid opening (normalized). */
+  leftEyeOpenness: number | null;
+  /** Right eyelid opening (normalized). */
+  rightEyeOpenness: number | null;
+  /** Lip opening (normalized). */
+  mouthOpenness: number | null;
+  /** Mean brightness of the eye regions (0-255). */
+  eyeBrightness: number | null;
+  /** Mean brightness of the face bounding box (0-255). */
+  faceBrightness: number | null;
+  /** Fraction of face pixels with clipped highlights (0-1). Compared to maxHighlightClipping. */
+  highlightClipping: number | null;
+  /** Fraction of face pixels far brighter than the rest of the face (0-1). Compared to maxGlareRatio. */
+  glareRatio: number | null;
+  /** 1 - darker/brighter mean of the left and right face halves (0-1). Compared to maxLightingImbalance. */
+  lightingImbalance: number | null;
+  /**
+   * Color cast of the face skin: distance of its mean chromaticity (r, g) from skin under
+   * neutral light (~0 under white light). Compared to maxColorCast.
+   */
+  colorCast: number | null;
+  /** Variance of the Laplacian of the face, resized to 128 px wide. Compared to minSharpness. */
+  sharpness: number | null;
+  /** Mean luminance of the background beside and above the head (0-255). */
+  backgroundLuminance: number | null;
+  /** Standard deviation of the background colors, averaged over R, G and B (0-255). */
+  backgroundDeviation: number | null;
+  /** Fraction of background pixels on an edge (0-1); clutter, doors and frames raise it. */
+  backgroundEdgeDensity: number | null;
+  /** Smallest distance from a hand landmark to the face center (normalized). */
+  handFaceDistance: number | null;
+  /** Largest bounding-box movement since the previous frame (px). */
+  stabilityDelta: number | null;
+  /** How long the face has been stable (ms). */
+  stableMs: number | null;
+}
+
+/**
+ * Structured result of one processed frame, delivered to onFrameReport.
+ */
+export interface ValidationReport {
+  /** Frame timestamp (performance.now()). */
+  timestamp: number;
+  /** Status resulting from this frame. */
+  status: ValidationCode;
+  /** Number of faces detected. */
+  faceCount: number;
+  /** Measurements of the face; null when there is not exactly one face. */
+  metrics: FrameMetrics | null;
+  /** Pass (true) / fail (false) per enabled rule id. Empty when there is not exactly one face. */
+  checks: Record<string, boolean>;
+}
+
+/**
+ * A camera frame handed to a DetectorBackend.
+ */
+export interface DetectorFrame {
+  /** Video element the frame is read from. */
+  source: HTMLVideoElement;
+  /** Frame width in pixels. */
+  width: number;
+  /** Frame height in pixels. */
+  height: number;
+  /** Strictly increasing timestamp (ms), as required by video-mode detectors. */
+  timestamp: number;
+  /**
+   * Whether the hands of this frame will probably be needed (a rule reached the hand check
+   * in the previous frame, or every frame is recorded). Backends that cannot detect hands on
+   * demand, like the worker, skip them when false and return null from `getHands`.
+   */
+  detectHands: boolean;
+}
+
+/**
+ * What a DetectorBackend found in one frame.
+ */
+export interface DetectorResult {
+  /** Normalized landmarks of every detected face (478 points for MediaPipe). */
+  faces: NormalizedLandmark[][];
+  /**
+   * Hands in the frame. Called at most once per frame, and only when a rule needs them.
+   * Returns null if the backend skipped them (`detectHands` was false): the loop then drops
+   * the frame and asks for hands in the next one.
+   */
+  getHands: () => DetectedHandData[] | null;
+  /** Measurements already taken by the backend; anything missing is computed from the frame. */
+  metrics?: Partial<FrameMetrics>;
+  /** Blendshape scores of each face, in the order of `faces` (when the backend provides them). */
+  blendshapes?: FaceBlendshapes[];
+  /** Head pose of each face from its facial transformation matrix, in the order of `faces`. */
+  headPoses?: HeadPose[];
+}
+
+/**
+ * Source of face and hand landmarks used by the live detection loop. The default backend
+ * runs MediaPipe (on the main thread or in a worker); MockDetectorBackend plays back
+ * preset data for tests.
+ */
+export interface DetectorBackend {
+  /**
+   * false for backends that do not read the video pixels (e.g. MockDetectorBackend): the loop
+   * then runs without waiting for a playing video. Default: true
+   */
+  readonly usesVideoFrames?: boolean;
+  /** Loads the models. Called once by the validator; resolves with the delegate in use. */
+  load(): Promise<ModelsLoadedInfo>;
+  /** Detects faces (and lazily hands) in a frame. */
+  detect(frame: DetectorFrame): DetectorResult | Promise<DetectorResult>;
+  /** Releases the models. Called by stop()/destroy(). */
+  dispose(): void;
+}
+
+/**
+ * Detection rate and latency measured by the scheduler, delivered to onPerformanceReport.
+ */
+export interface DetectionPerformance {
+  /** Detections per second actually achieved over the last second. */
+  fps: number;
+  /** Rate currently scheduled (lowered while latency is over budget); null when unthrottled. */
+  scheduledFps: number | null;
+  /** Moving average of the per-frame processing time (detection + rules), in ms. */
+  latencyMs: number | null;
+}
+
+/**
+ * Validator settings stored with a recording, so replaySession() rebuilds the same checks.
+ */
+export interface SessionRecordingConfig {
+  /** Reference frame size used for the stability check (videoWidth/videoHeight). */
+  frameWidth: number;
+  frameHeight: number;
+  captureMode: 'auto' | 'manual';
+  stabilityMovementThreshold: number;
+  thresholds: ValidationThresholds;
+  /** Ids of the rules that were disabled. Custom rules are not serialized. */
+  disabledRules: string[];
+  profile?: ValidationProfile;
+  icao?: IcaoRequirements;
+}
+
+/**
+ * A hand in a recorded frame.
+ */
+export interface RecordedHand {
+  handedness: string;
+  /** 21 landmarks flattened as x, y, z triples. */
+  landmarks: number[];
+}
+
+/**
+ * One processed frame of a recording.
+ */
+export interface RecordedFrame {
+  /** Frame timestamp (performance.now()). */
+  t: number;
+  /** Source frame size: [width, height] in pixels. */
+  size: [number, number];
+  /** Landmarks of every detected face, flattened as x, y, z triples. */
+  faces: number[][];
+  /** Hands of the frame; omitted unless exactly one face was detected. */
+  hands?: RecordedHand[];
+  /** Brightness samples: [face, eye] (0-255); omitted unless exactly one face was detected. */
+  brightness?: [number | null, number | null];
+  /** Exposure samples: [highlight clipping, glare ratio, lighting imbalance]; omitted unless exactly one face was detected. */
+  exposure?: [number | null, number | null, number | null];
+  /** Blendshape scores of each face, when they were used (expressionEvaluator: 'blendshapes'). */
+  blendshapes?: FaceBlendshapes[];
+  /** Head pose of each face from the facial transformation matrix, when the backend provided it. */
+  headPoses?: HeadPose[];
+  /** Face sharpness; omitted unless exactly one face was detected. */
+  sharpness?: number | null;
+  /** Face color cast; omitted unless exactly one face was detected. */
+  colorCast?: number | null;
+  /** Background samples: [luminance, deviation, edge density]; omitted unless exactly one face was detected. */
+  background?: [number | null, number | null, number | null];
+  /** Status the live validator produced for the frame. */
+  status: ValidationCode;
+  /** Set on the first frame after pause()/restart(): stability starts over. */
+  reset?: true;
+}
+
+/**
+ * A recorded detection session (plain JSON, safe to attach to a bug report).
+ */
+export interface SessionRecording {
+  version: 1;
+  /** ISO date the recording started. */
+  createdAt: string;
+  config: SessionRecordingConfig;
+  frames: RecordedFrame[];
+  /** true when frames were dropped after reaching `maxFrames`. */
+  truncated: boolean;
+}
+
+/**
+ * Overrides for replaySession(); anything omitted comes from the recording.
+ */
+export interface ReplayOptions {
+  /** Custom rules, as in FaceValidatorOptions.rules (custom rules are not recorded). */
+  rules?: ValidationRule[];
+  /** Rule ids to disable. */
+  disabledRules?: string[];
+  /** Thresholds to try instead of the recorded ones. */
+  thresholds?: Partial<ValidationThresholds>;
+  /** Frame handed to rules as `source`; recordings carry no pixels. */
+  source?: CanvasImageSource;
+}
+
+/**
+ * A recorded frame after replay.
+ */
+export interface ReplayedFrame {
+  /** Frame timestamp (performance.now() of the recording). */
+  t: number;
+  /** Status in the recording. */
+  recordedStatus: ValidationCode;
+  /** Status produced by the replay. */
+  status: ValidationCode;
+  /** Every failing rule; empty unless exactly one face was detected. */
+  failures: ValidationRuleFailure[];
+}
+
+/**
+ * Result of replaySession().
+ */
+export interface ReplayResult {
+  frames: ReplayedFrame[];
+  /** Status timeline of the replay, one entry per frame. */
+  statuses: ValidationCode[];
+  /** Frames whose replayed status differs from the recorded one. */
+  mismatches: ReplayedFrame[];
+}
+
+/**
+ * Quality score of a buffered frame. Every component is normalized to 0-1 (higher is better);
+ * sharpness and eye openness are relative to the best frame in the buffer.
+ */
+export interface FrameScore {
+  /** Weighted sum of the components. */
+  total: number;
+  sharpness: number;
+  eyeOpenness: number;
+  headPose: number;
+  brightness: number;
+}
+
+/**
+ * A buffered frame, encoded on request via getCaptureCandidates().
+ */
+export interface CaptureCandidate {
+  blob: Blob;
+  /** Frame timestamp (performance.now()). */
+  timestamp: number;
+  score: FrameScore;
+  /** Face sharpness of the frame (see FrameMetrics.sharpness). */
+  sharpness: number;
+}
+
+/**
+ * Details of a successful capture.
+ */
+export interface CaptureResult {
+  blob: Blob;
+  /** Timestamp of the captured frame (performance.now()). */
+  timestamp: number;
+  /** Score of the captured frame; null when best-frame selection is disabled. */
+  score: FrameScore | null;
+  /** Face sharpness of the captured frame (see FrameMetrics.sharpness); null if it could not be measured. */
+  sharpness: number | null;
+  /** Width of the image in pixels. */
+  width: number;
+  /** Height of the image in pixels. */
+  height: number;
+  /** Encoder quality used (after any `maxBytes` search); null for PNG. */
+  quality: number | null;
+  /** Size of the image in bytes. */
+  size: number;
+}
+
+/**
+ * A rule that failed for a frame.
+ */
+export interface ValidationRuleFailure {
+  ruleId: string;
+  status: ValidationCode;
+}
+
 /**
  * Bounding box structure compatible with MediaPipe (normalized 0-1 coords)
  */
@@ -94,6 +825,10 @@ export interface DetectedFaceData {
   landmarks: NormalizedLandmark[];
   /** Detection timestamp */
   timestamp: number;
+  /** Blendshape scores; only with expressionEvaluator: 'blendshapes'. */
+  blendshapes?: FaceBlendshapes;
+  /** Head pose from the facial transformation matrix; absent if the detector did not provide it. */
+  headPose?: HeadPose;
 }
 
 /**
@@ -0,0 +1,112 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { createSyntheticFace } from './syntheticLandmarks';
+import { ValidationGuidance, type BoundingBox } from './types';
+import { estimateHeadPose, getCenteringGuidance, isFaceBoundingBoxInsideOval, isHeadStraight } from './utils';
+
+const ASPECT_RATIO = 640 / 480;
+
+/** Malha de 478 pontos zerados com apenas os landmarks que estimateHeadPose lê. */
+function fixture(points: {
+  leftEye: [number, number];
+  rightEye: [number, number];
+  nose: [number, number];
+  forehead?: [number, number, number];
+  chin?: [number, number, number];
+}): NormalizedLandmark[] {
+  const landmarks: NormalizedLandmark[] = Array.from({ length: 478 }, () => ({ x: 0, y: 0, z: 0, visibility: 0 }));
+  const set = (index: number, [x, y, z = 0]: number[]) => (landmarks[index] = { x, y, z, visibility: 0 });
+  set(33, points.leftEye);
+  set(263, points.rightEye);
+  set(4, points.nose);
+  set(10, points.forehead ?? [0.5, 0.25, 0]);
+  set(152, points.chin ?? [0.5, 0.7, 0]);
+  return landmarks;
+}
+
+// Frame 640x480. Olhos a 128 px um do outro, nariz 64 px abaixo do ponto médio deles
+const LEVEL = fixture({ leftEye: [0.4, 0.4], rightEye: [0.6, 0.4], nose: [0.5, 0.5333333] });
+// Mesma face girada 20° no plano da imagem (em pixels): olho direito 46.59 px mais baixo
+const TILTED_20 = fixture({
+  leftEye: [0.4, 0.4],
+  rightEye: [0.6, 0.4970587],
+  nose: [0.465798, 0.5738217],
+});
+
+describe('estimateHeadPose', () => {
+  it('measures a level frontal face as straight', () => {
+    const pose = estimateHeadPose(LEVEL, ASPECT_RATIO);
+
+    expect(pose?.roll).toBeCloseTo(0, 3);
+    expect(pose?.yaw).toBeCloseTo(0, 3);
+    expect(pose?.pitch).toBeCloseTo(0, 3);
+  });
+
+  it('measures roll in pixels, not in normalized coordinates', () => {
+    expect(estimateHeadPose(TILTED_20, ASPECT_RATIO)?.roll).toBeCloseTo(20, 3);
+    // Sem a proporção do frame o y normalizado (pela altura) estica o ângulo
+    expect(estimateHeadPose(TILTED_20)?.roll).toBeCloseTo(25.89, 1);
+  });
+
+  it('does not read a sideways tilt as a turn', () => {
+    expect(estimateHeadPose(TILTED_20, ASPECT_RATIO)?.yaw).toBeCloseTo(0, 3);
+  });
+
+  it('measures yaw from the nose offset along the eye line', () => {
+    // Nariz 12.8 px à direita do centro dos olhos: 10% da distância entre eles
+    const turned = fixture({ leftEye: [0.4, 0.4], rightEye: [0.6, 0.4], nose: [0.52, 0.5333333] });
+
+    expect(estimateHeadPose(turned, ASPECT_RATIO)?.yaw).toBeCloseTo(Math.atan(0.1) * (180 / Math.PI), 3);
+  });
+
+  it('measures pitch from the forehead–chin depth on the width scale', () => {
+    // Queixo 32 px mais perto da câmera que a testa, 216 px abaixo dela
+    const raised = fixture({
+      leftEye: [0.4, 0.4],
+      rightEye: [0.6, 0.4],
+      nose: [0.5, 0.5333333],
+      chin: [0.5, 0.7, -0.05],
+    });
+
+    expect(estimateHeadPose(raised, ASPECT_RATIO)?.pitch).toBeCloseTo(Math.atan(32 / 216) * (180 / Math.PI), 3);
+  });
+});
+
+describe('isHeadStraight', () => {
+  it.each([-1, 1])('accepts a roll just below the limit and rejects one just above (sign %d)', sign => {
+    const below = createSyntheticFace({ roll: sign * 19.9 });
+    const above = createSyntheticFace({ roll: sign * 20.1 });
+
+    expect(isHeadStraight(below, 20, 25, Infinity, ASPECT_RATIO)).toBe(true);
+    expect(isHeadStraight(above, 20, 25, Infinity, ASPECT_RATIO)).toBe(false);
+  });
+});
+
+describe('getCenteringGuidance', () => {
+  // Frame 640x480: oval com raios de 128 px e 163.2 px
+  const box = (xMin: number, yMin: number, width = 0.2, height = 0.4): BoundingBox => ({ xMin, yMin, width, height });
+  const guidance = (nose: [number, number], face: BoundingBox, mirror = false) =>
+    getCenteringGuidance(nose[0], nose[1], face, 640, 480, mirror);
+
+  it('asks to move back when the face box cannot fit in the oval even centered', () => {
+    const large = box(0.325, 0.25, 0.35, 0.5);
+
+    expect(isFaceBoundingBoxInsideOval(large, 640, 480)).toBe(false);
+    expect(guidance([0.5, 0.5], large)).toBe(ValidationGuidance.MOVE_BACK);
+  });
+
+  it('points away from the oval edge the face box crosses when the nose is centered', () => {
+    const high = box(0.4, 0.15);
+    const right = box(0.52, 0.3);
+
+    expect(isFaceBoundingBoxInsideOval(high, 640, 480)).toBe(false);
+    expect(guidance([0.5, 0.45], high)).toBe(ValidationGuidance.MOVE_DOWN);
+    expect(isFaceBoundingBoxInsideOval(right, 640, 480)).toBe(false);
+    expect(guidance([0.6, 0.5], right)).toBe(ValidationGuidance.MOVE_LEFT);
+    // Preview espelhado: a borda direita do frame aparece à esquerda
+    expect(guidance([0.6, 0.5], right, true)).toBe(ValidationGuidance.MOVE_RIGHT);
+  });
+
+  it('follows the nose offset when the nose is outside the oval center', () => {
+    expect(guidance([0.5, 0.8], box(0.4, 0.3))).toBe(ValidationGuidance.MOVE_UP);
+  });
+});
@@ -1,5 +1,65 @@
-import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
-import { DetectedFaceData, DetectedHandData, ValidationStatus, BoundingBox } from './types';
+import type { NormalizedLandmark, HandLandmarkerResult, Classifications, Matrix } from '@mediapipe/tasks-vision';
+import {
+  DetectedFaceData,
+  DetectedHandData,
+  FaceBlendshapes,
+  HeadPose,
+  ValidationGuidance,
+  ValidationStatus,
+  BoundingBox,
+  ImageValidationSource,
+  ValidationCode,
+} from './types';
+
+/**
+ * Converte o resultado do HandLandmarker para DetectedHandData.
+ */
+export function toDetectedHands(handResults: HandLandmarkerResult): DetectedHandData[] {
+  return (handResults.landmarks || []).map((landmarks, idx) => ({
+    landmarks,
+    handedness: handResults.handednesses?.[idx]?.[0]?.categoryName || 'Unknown'
+  }));
+}
+
+/**
+ * Converte os blendshapes do FaceLandmarker (uma lista de categorias por face) em mapas
+ * categoria → score.
+ */
+export function toFaceBlendshapes(classifications: Classifications[] | undefined): FaceBlendshapes[] {
+  return (classifications || []).map(({ categories }) => {
+    const blendshapes: FaceBlendshapes = {};
+    for (const { categoryName, score } of categories) blendshapes[categoryName] = score;
+    return blendshapes;
+  });
+}
+
+/**
+ * Converte as matrizes de transformação facial do FaceLandmarker em ângulos da cabeça.
+ */
+export function toHeadPoses(matrices: Matrix[] | undefined): HeadPose[] {
+  return (matrices || []).map(matrix => headPoseFromMatrix(matrix.data));
+}
+
+/**
+ * Ângulos de Euler (graus) da matriz 4x4 column-major que leva o modelo canônico da face ao
+ * espaço da câmera (x à direita da imagem, y para cima, z para a câmera), com R = Rz·Ry·Rx.
+ * Os sinais seguem as estimativas por landmarks (FrameMetrics): giro para a direita da
+ * imagem, queixo para cima e topo da cabeça para a direita da imagem são positivos.
+ */
+export function headPoseFromMatrix(data: number[]): HeadPose {
+  const r = (row: number, col: number) => data[col * 4 + row];
+  // A matriz pode trazer escala uniforme: normaliza pela primeira coluna
+  const scale = Math.hypot(r(0, 0), r(1, 0), r(2, 0)) || 1;
+  const toDegrees = 180 / Math.PI;
+  const rotationY = Math.asin(Math.max(-1, Math.min(1, -r(2, 0) / scale)));
+  const rotationX = Math.atan2(r(2, 1), r(2, 2));
+  const rotationZ = Math.atan2(r(1, 0), r(0, 0));
+  return {
+    yaw: rotationY * toDegrees,
+    pitch: -rotationX * toDegrees,
+    roll: -rotationZ * toDegrees,
+  };
+}
 
 /**
  * Calcula o brilho médio de uma região da imagem (0-255).
@@ -18,6 +78,125 @@ export function calculateAverageBrightness(imageData: ImageData): number {
   return sum / (data.length / 4);
 }
 
+/**
+ * Cromaticidade (r, g normalizados) da pele sob luz neutra. Tons de pele diferem
+ * sobretudo em brilho; a cromaticidade fica perto deste ponto.
+ */
+const NEUTRAL_SKIN_CHROMATICITY = { r: 0.45, g: 0.32 };
+/** Pixels muito escuros ou estourados têm cromaticidade pouco confiável. */
+const MIN_CHROMA_LUMINANCE = 30;
+const MAX_CHROMA_LUMINANCE = 250;
+
+/**
+ * Estima o desvio de cor (dominante de cor) de uma região de pele: distância entre a
+ * cromaticidade média (r, g) e a da pele sob luz neutra. ~0 com luz branca; luz de sódio
+ * ou LEDs coloridos passam de 0.1. Retorna null sem pixels utilizáveis.
+ */
+export function calculateColorCast(imageData: ImageData): number | null {
+  const data = imageData.data;
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+    if (luminance < MIN_CHROMA_LUMINANCE || luminance > MAX_CHROMA_LUMINANCE) continue;
+    red += data[i];
+    green += data[i + 1];
+    blue += data[i + 2];
+  }
+  const sum = red + green + blue;
+  if (sum === 0) return null;
+  return Math.hypot(red / sum - NEUTRAL_SKIN_CHROMATICITY.r, green / sum - NEUTRAL_SKIN_CHROMATICITY.g);
+}
+
+/**
+ * Estima bounding box a partir dos landmarks (MediaPipe não fornece bbox diretamente).
+ */
+export function estimateBoundingBox(landmarks: NormalizedLandmark[]): BoundingBox {
+  const xs = landmarks.map(l => l.x);
+  const ys = landmarks.map(l => l.y);
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const yMin = Math.min(...ys);
+  const yMax = Math.max(...ys);
+  return {
+    xMin,
+    yMin,
+    width: xMax - xMin,
+    height: yMax - yMin,
+  };
+}
+
+/**
+ * Converte uma imagem estática (Blob, <img>, ImageBitmap ou ImageData) em uma fonte
+ * desenhável em canvas e aceita pelos landmarkers do MediaPipe.
+ */
+export async function loadImageSource(
+  source: ImageValidationSource
+): Promise<{ image: HTMLCanvasElement | HTMLImageElement | ImageBitmap; width: number; height: number }> {
+  if (source instanceof Blob) {
+    const bitmap = await createImageBitmap(source);
+    return { image: bitmap, width: bitmap.width, height: bitmap.height };
+  }
+
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    if (!source.complete || !source.naturalWidth) {
+      await source.decode();
+    }
+    return { image: source, width: source.naturalWidth, height: source.naturalHeight };
+  }
+
+  if (typeof ImageData !== 'undefined' && source instanceof ImageData) {
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.putImageData(source, 0, 0);
+    return { image: canvas, width: canvas.width, height: canvas.height };
+  }
+
+  const bitmap = source as ImageBitmap;
+  return { image: bitmap, width: bitmap.width, height: bitmap.height };
+}
+
+/**
+ * Mede a nitidez de uma imagem pela variância do Laplaciano (4 vizinhos) em tons de cinza.
+ * Valores maiores = mais detalhes/bordas; imagens borradas ficam próximas de 0.
+ */
+export function calculateSharpness(imageData: ImageData): number {
+  const { data, width, height } = imageData;
+  if (width < 3 || height < 3) return 0;
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    gray[p] = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const laplacian = gray[p - 1] + gray[p + 1] + gray[p - width] + gray[p + width] - 4 * gray[p];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Converte um canvas em Blob (versão Promise de canvas.toBlob).
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
+
 /**
  * Verifica se a face está na distância adequada (baseado no tamanho do bounding box).
  */
@@ -70,14 +249,15 @@ const OVAL_RADIUS_X_FACTOR = 0.20; // Raio horizontal do oval (20% da largura)
 const OVAL_RADIUS_Y_FACTOR = 0.34; // Raio vertical do oval (34% da altura)
 
 /**
- * Verifica se um ponto (normalizado 0-1) está dentro do oval de enquadramento.
+ * Deslocamento de um ponto em relação ao centro do oval, em raios do oval
+ * (dx > 0 = à direita no frame da câmera, dy > 0 = abaixo; ±1 = borda).
  */
-export function isPointInsideOval(
+export function getOvalOffset(
   pointX: number,
   pointY: number,
   frameWidth: number,
   frameHeight: number
-): boolean {
+): { dx: number; dy: number } {
   // Converter ponto normalizado para pixels
   const px = pointX * frameWidth;
   const py = pointY * frameHeight;
@@ -85,14 +265,88 @@ export function isPointInsideOval(
   const cy = frameHeight / 2;
   const rx = frameWidth * OVAL_RADIUS_X_FACTOR;
   const ry = frameHeight * OVAL_RADIUS_Y_FACTOR;
-  const dx = (px - cx) / rx;
-  const dy = (py - cy) / ry;
-  const distanceSquared = dx * dx + dy * dy;
+  return { dx: (px - cx) / rx, dy: (py - cy) / ry };
+}
 
+/**
+ * Distância normalizada (ao quadrado) de um ponto ao centro do oval de enquadramento.
+ * 0 = centro exato; 1.0 = borda do oval.
+ */
+export function getOvalDistance(
+  pointX: number,
+  pointY: number,
+  frameWidth: number,
+  frameHeight: number
+): number {
+  const { dx, dy } = getOvalOffset(pointX, pointY, frameWidth, frameHeight);
+  return dx * dx + dy * dy;
+}
+
+/**
+ * Direção para corrigir OFF_CENTER, pelas mesmas verificações da regra `centering`: face que
+ * não cabe no oval nem centralizada → afastar-se; nariz (ponto) fora da região central → eixo
+ * mais deslocado do nariz; caixa da face saindo do oval → para longe da borda ultrapassada.
+ * Esquerda e direita seguem o preview: com `mirror` o frame da câmera aparece invertido.
+ */
+export function getCenteringGuidance(
+  pointX: number,
+  pointY: number,
+  boundingBox: BoundingBox,
+  frameWidth: number,
+  frameHeight: number,
+  mirror: boolean
+): ValidationGuidance {
+  // Meia largura/altura da caixa em raios do oval: com o canto fora da elipse mesmo centralizada,
+  // só afastar-se resolve
+  const halfWidth = boundingBox.width / (2 * OVAL_RADIUS_X_FACTOR);
+  const halfHeight = boundingBox.height / (2 * OVAL_RADIUS_Y_FACTOR);
+  if (halfWidth * halfWidth + halfHeight * halfHeight > 1) return ValidationGuidance.MOVE_BACK;
+
+  let { dx, dy } = getOvalOffset(pointX, pointY, frameWidth, frameHeight);
+  if (isPointInsideOval(pointX, pointY, frameWidth, frameHeight)) {
+    // Nariz centralizado, caixa saindo do oval: o eixo em que o centro da caixa consumiu a
+    // maior parte da folga que sobra entre a caixa e o oval
+    const center = getOvalOffset(
+      boundingBox.xMin + boundingBox.width / 2,
+      boundingBox.yMin + boundingBox.height / 2,
+      frameWidth,
+      frameHeight
+    );
+    dx = center.dx / (1 - halfWidth);
+    dy = center.dy / (1 - halfHeight);
+  }
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    const previewDx = mirror ? -dx : dx;
+    return previewDx > 0 ? ValidationGuidance.MOVE_LEFT : ValidationGuidance.MOVE_RIGHT;
+  }
+  return dy > 0 ? ValidationGuidance.MOVE_UP : ValidationGuidance.MOVE_DOWN;
+}
+
+/**
+ * Retângulo (em pixels) que contém o oval de enquadramento.
+ */
+export function getOvalBounds(
+  frameWidth: number,
+  frameHeight: number
+): { x: number; y: number; width: number; height: number } {
+  const rx = frameWidth * OVAL_RADIUS_X_FACTOR;
+  const ry = frameHeight * OVAL_RADIUS_Y_FACTOR;
+  return { x: frameWidth / 2 - rx, y: frameHeight / 2 - ry, width: rx * 2, height: ry * 2 };
+}
+
+/**
+ * Verifica se um ponto (normalizado 0-1) está dentro do oval de enquadramento.
+ */
+export function isPointInsideOval(
+  pointX: number,
+  pointY: number,
+  frameWidth: number,
+  frameHeight: number
+): boolean {
   // Mais rigoroso: nariz deve ficar próximo do centro do oval,
   // não apenas "em qualquer ponto dentro" da borda.
   // 1.0 = borda exata do oval; 0.6 ≈ região central mais restrita.
-  return distanceSquared <= 0.6;
+  return getOvalDistance(pointX, pointY, frameWidth, frameHeight) <= 0.6;
 }
 
 /**
@@ -146,13 +400,95 @@ export function isFaceBoundingBoxInsideOval(
   return cornersOutside === 0;
 }
 
+/**
+ * Estima os ângulos da cabeça em graus a partir dos landmarks 2D (+ profundidade z).
+ * - roll: inclinação lateral (olhos desalinhados verticalmente)
+ * - yaw: nariz deslocado do centro dos olhos ao longo da linha dos olhos
+ * - pitch: profundidade relativa testa/queixo (positivo = queixo para cima)
+ * `aspectRatio` (largura / altura do frame) desfaz a escala diferente de x e y normalizados.
+ * Retorna null se os olhos estiverem próximos demais para estimar.
+ */
+export function estimateHeadPose(
+  landmarks: NormalizedLandmark[],
+  aspectRatio: number = 1
+): { roll: number; yaw: number; pitch: number } | null {
+  if (landmarks.length < 478) return null;
+
+  const leftEye = landmarks[MEDIAPIPE_LEFT_EYE[0]]; // 33
+  const rightEye = landmarks[MEDIAPIPE_RIGHT_EYE[0]]; // 263
+  const nose = landmarks[MEDIAPIPE_NOSE_TIP]; // 4
+  const chin = landmarks[152];
+  const forehead = landmarks[10];
+
+  const eyeDeltaX = Math.abs(leftEye.x - rightEye.x);
+  if (eyeDeltaX < 0.01) return null; // Proteção divisão por zero
+
+  // x e z vêm na escala da largura, y na da altura: tudo convertido para a altura
+  const toDegrees = 180 / Math.PI;
+  const eyeAxisX = (rightEye.x - leftEye.x) * aspectRatio;
+  const eyeAxisY = rightEye.y - leftEye.y;
+  const roll = Math.atan(eyeAxisY / Math.abs(eyeAxisX)) * toDegrees;
+  // Deslocamento do nariz ao longo da linha dos olhos: a inclinação lateral não vira yaw
+  const noseOffsetX = (nose.x - (leftEye.x + rightEye.x) / 2) * aspectRatio;
+  const noseOffsetY = nose.y - (leftEye.y + rightEye.y) / 2;
+  const eyeLineOffset = (noseOffsetX * eyeAxisX + noseOffsetY * eyeAxisY) / (eyeAxisX ** 2 + eyeAxisY ** 2);
+  const yaw = Math.atan(eyeLineOffset * Math.sign(eyeAxisX)) * toDegrees;
+  const depth = ((forehead.z ?? 0) - (chin.z ?? 0)) * aspectRatio;
+  const pitch = Math.atan2(depth, Math.max(chin.y - forehead.y, 0.01)) * toDegrees;
+
+  return { roll, yaw, pitch };
+}
+
+/**
+ * Direção para endireitar a cabeça: o eixo que mais excede o próprio limite (proporcionalmente).
+ * Com a estimativa 2D a falha pode vir das proporções, sem ângulo acima do limite; vale o
+ * eixo mais próximo dele. O giro segue o preview (invertido com `mirror`).
+ */
+export function getHeadPoseGuidance(
+  pose: HeadPose,
+  limits: { maxYawDegrees: number; maxPitchDegrees: number; maxRollDegrees: number },
+  mirror: boolean
+): ValidationGuidance {
+  const yawExcess = Math.abs(pose.yaw) / Math.max(limits.maxYawDegrees, 1);
+  const pitchExcess = Math.abs(pose.pitch) / Math.max(limits.maxPitchDegrees, 1);
+  const rollExcess = Math.abs(pose.roll) / Math.max(limits.maxRollDegrees, 1);
+
+  if (yawExcess >= pitchExcess && yawExcess >= rollExcess) {
+    // yaw > 0: nariz para a direita do frame; o usuário deve girar no sentido oposto
+    const previewYaw = mirror ? -pose.yaw : pose.yaw;
+    return previewYaw > 0 ? ValidationGuidance.TURN_LEFT : ValidationGuidance.TURN_RIGHT;
+  }
+  if (pitchExcess >= rollExcess) {
+    return pose.pitch > 0 ? ValidationGuidance.CHIN_DOWN : ValidationGuidance.CHIN_UP;
+  }
+  return ValidationGuidance.LEVEL_HEAD;
+}
+
+/**
+ * Verifica os ângulos medidos pela matriz de transformação facial contra os limites de cada eixo.
+ */
+export function isHeadPoseWithinLimits(
+  pose: HeadPose,
+  limits: { maxYawDegrees: number; maxPitchDegrees: number; maxRollDegrees: number }
+): boolean {
+  return (
+    Math.abs(pose.yaw) <= limits.maxYawDegrees &&
+    Math.abs(pose.pitch) <= limits.maxPitchDegrees &&
+    Math.abs(pose.roll) <= limits.maxRollDegrees
+  );
+}
+
 /**
  * Verifica se a cabeça está reta (sem inclinação lateral, horizontal ou vertical).
- * MediaPipe: usa landmarks dos olhos, nariz e boca.
+ * MediaPipe: usa landmarks dos olhos, nariz e boca. Pitch é limitado em graus pela
+ * profundidade testa–queixo (sem limite por padrão) e, nos extremos, pelas proporções abaixo.
  */
 export function isHeadStraight(
   landmarks: NormalizedLandmark[],
-  maxTiltDegrees: number = 25
+  maxTiltDegrees: number = 25,
+  maxYawDegrees: number = maxTiltDegrees,
+  maxPitchDegrees: number = Infinity,
+  aspectRatio: number = 1
 ): boolean {
   if (landmarks.length < 478) return false;
 
@@ -167,28 +503,22 @@ export function isHeadStraight(
   const chin = landmarks[152]; // Queixo
   const forehead = landmarks[10]; // Testa
 
+  const pose = estimateHeadPose(landmarks, aspectRatio);
+  if (!pose) return false;
+
   // Roll: inclinação lateral (olhos desalinhados verticalmente)
-  const eyeDeltaY = Math.abs(leftEye.y - rightEye.y);
-  const eyeDeltaX = Math.abs(leftEye.x - rightEye.x);
-  if (eyeDeltaX < 0.01) return false; // Proteção divisão por zero
-  const rollRatio = eyeDeltaY / eyeDeltaX;
-  const rollAngleDeg = Math.atan(rollRatio) * (180 / Math.PI);
-  if (rollAngleDeg > maxTiltDegrees) return false;
+  if (Math.abs(pose.roll) > maxTiltDegrees) return false;
 
   // Yaw: desvio horizontal (nariz deslocado do centro dos olhos)
   // NOTA: validação adicional usando orelhas é feita em isYawAcceptable()
-  const midEyesX = (leftEye.x + rightEye.x) / 2;
-  const noseOffsetX = nose.x - midEyesX;
-  const eyeDist = Math.abs(leftEye.x - rightEye.x);
-  if (eyeDist < 0.01) return false;
-  const yawRatio = Math.abs(noseOffsetX) / eyeDist;
-  const yawAngleDeg = Math.atan(yawRatio) * (180 / Math.PI);
-  if (yawAngleDeg > maxTiltDegrees) return false;
+  if (Math.abs(pose.yaw) > maxYawDegrees) return false;
 
   // Validação adicional de yaw usando orelhas (mais precisa para rostos na diagonal)
   if (!isYawAcceptable(landmarks)) return false;
 
   // Pitch: inclinação vertical (cabeça para cima/baixo)
+  if (Math.abs(pose.pitch) > maxPitchDegrees) return false;
+
   const midEyesY = (leftEye.y + rightEye.y) / 2;
   const mouthY = (upperLip.y + lowerLip.y) / 2;
 
@@ -297,87 +627,383 @@ export function isFaceGeometryPlausible(
 }
 
 /**
- * Detecta se a pessoa está usando óculos escuros através da análise de luminosidade dos olhos.
- * Óculos de grau geralmente não bloqueiam completamente a luz, permitindo ver os olhos.
+ * Contexto 2D temporário para amostrar pixels. Retorna null se não estiver disponível.
  */
-export function hasDarkGlasses(
-  video: HTMLVideoElement,
-  landmarks: NormalizedLandmark[]
-): boolean {
-  if (landmarks.length < 478) return false;
+function createSamplingContext(
+  width: number,
+  height: number
+): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+  // Sem document (Web Worker): OffscreenCanvas
+  const tempCanvas =
+    typeof document !== 'undefined' ? document.createElement('canvas') : new OffscreenCanvas(width, height);
+  tempCanvas.width = width;
+  tempCanvas.height = height;
+  return tempCanvas.getContext('2d', { willReadFrequently: true }) as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+}
+
+/**
+ * Calcula o brilho médio (0-255) de uma região retangular de uma fonte de imagem.
+ * Coordenadas em pixels da fonte. Retorna null se o contexto 2D não estiver disponível.
+ */
+export function calculateRegionBrightness(
+  source: CanvasImageSource,
+  region: { x: number; y: number; width: number; height: number }
+): number | null {
+  const width = Math.max(1, Math.round(region.width));
+  const height = Math.max(1, Math.round(region.height));
+  const ctx = createSamplingContext(width, height);
+  if (!ctx) return null;
+
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  return calculateAverageBrightness(ctx.getImageData(0, 0, width, height));
+}
+
+/**
+ * Mede o brilho médio (0-255) da região do rosto (bounding box normalizado).
+ */
+export function measureFaceBrightness(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  boundingBox: BoundingBox
+): number | null {
+  return calculateRegionBrightness(source, {
+    x: boundingBox.xMin * sourceWidth,
+    y: boundingBox.yMin * sourceHeight,
+    width: boundingBox.width * sourceWidth,
+    height: boundingBox.height * sourceHeight,
+  });
+}
+
+/** Largura (px) da cópia reduzida do rosto usada na análise de exposição. */
+const EXPOSURE_SAMPLE_WIDTH = 64;
+/** Luminância (0-255) a partir da qual um pixel é considerado estourado. */
+const CLIPPED_LUMINANCE = 250;
+/** Reflexo: pixel quase saturado e bem acima da mediana do rosto. */
+const GLARE_MIN_LUMINANCE = 235;
+const GLARE_MEDIAN_OFFSET = 60;
 
+/**
+ * Medidas de exposição do rosto.
+ */
+export interface ExposureMeasurement {
+  /** Fração dos pixels estourados (0-1). */
+  highlightClipping: number;
+  /** Diferença entre as metades esquerda e direita: 1 - escura/clara (0 = equilibrado). */
+  lightingImbalance: number;
+  /** Fração dos pixels com reflexo especular (0-1). */
+  glareRatio: number;
+}
+
+/**
+ * Analisa o histograma de luminância do rosto: realces estourados, reflexos pontuais e
+ * desequilíbrio entre as metades (divididas em `midlineX`, normalizado, ex.: ponta do nariz).
+ * A caixa é reduzida nas bordas para deixar de fora o fundo nos cantos. Retorna null se não
+ * for possível amostrar os pixels.
+ */
+export function measureFaceExposure(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  boundingBox: BoundingBox,
+  midlineX: number
+): ExposureMeasurement | null {
+  const xMin = boundingBox.xMin + boundingBox.width * 0.15;
+  const xMax = boundingBox.xMin + boundingBox.width * 0.85;
+  const yMin = boundingBox.yMin + boundingBox.height * 0.1;
+  const yMax = boundingBox.yMin + boundingBox.height * 0.9;
+  const x = Math.max(0, xMin * sourceWidth);
+  const y = Math.max(0, yMin * sourceHeight);
+  const regionWidth = Math.min(sourceWidth, xMax * sourceWidth) - x;
+  const regionHeight = Math.min(sourceHeight, yMax * sourceHeight) - y;
+  if (regionWidth < 1 || regionHeight < 1) return null;
+
+  const width = EXPOSURE_SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round((regionHeight / regionWidth) * width));
+  let data: Uint8ClampedArray;
   try {
-    // Criar canvas temporário para capturar regiões dos olhos
-    const tempCanvas = document.createElement('canvas');
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) return false;
-
-    const videoWidth = video.videoWidth;
-    const videoHeight = video.videoHeight;
-
-    // Definir landmarks dos olhos (área maior que inclui região ao redor)
-    const leftEyeLandmarks = [
-      landmarks[33],  // Canto externo
-      landmarks[133], // Canto interno
-      landmarks[159], // Superior
-      landmarks[144], // Inferior
-      landmarks[145], // Centro
-    ];
-
-    const rightEyeLandmarks = [
-      landmarks[263], // Canto externo
-      landmarks[362], // Canto interno
-      landmarks[386], // Superior
-      landmarks[373], // Inferior
-      landmarks[374], // Centro
-    ];
-
-    // Função para calcular bounding box de uma região
-    const getBoundingBox = (eyeLandmarks: NormalizedLandmark[]) => {
-      const xs = eyeLandmarks.map(l => l.x * videoWidth);
-      const ys = eyeLandmarks.map(l => l.y * videoHeight);
-
-      const minX = Math.max(0, Math.min(...xs) - 5);
-      const maxX = Math.min(videoWidth, Math.max(...xs) + 5);
-      const minY = Math.max(0, Math.min(...ys) - 5);
-      const maxY = Math.min(videoHeight, Math.max(...ys) + 5);
-
-      return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
-    };
-
-    // Função para calcular luminosidade média de uma região
-    const getRegionBrightness = (box: { x: number; y: number; width: number; height: number }) => {
-      tempCanvas.width = box.width;
-      tempCanvas.height = box.height;
-
-      ctx.drawImage(
-        video,
-        box.x, box.y, box.width, box.height,
-        0, 0, box.width, box.height
-      );
-
-      const imageData = ctx.getImageData(0, 0, box.width, box.height);
-      return calculateAverageBrightness(imageData);
-    };
+    const ctx = createSamplingContext(width, height);
+    if (!ctx) return null;
+    ctx.drawImage(source, x, y, regionWidth, regionHeight, 0, 0, width, height);
+    data = ctx.getImageData(0, 0, width, height).data;
+  } catch (error) {
+    console.warn('Erro ao analisar a exposição do rosto:', error);
+    return null;
+  }
+
+  // Coluna da linha média na cópia reduzida, mantendo ao menos uma coluna de cada lado
+  const splitColumn = Math.min(
+    width - 1,
+    Math.max(1, Math.round(((midlineX * sourceWidth - x) / regionWidth) * width))
+  );
+  const histogram = new Array<number>(256).fill(0);
+  const sides = { left: 0, leftCount: 0, right: 0, rightCount: 0 };
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const p = (row * width + column) * 4;
+      const luminance = 0.2126 * data[p] + 0.7152 * data[p + 1] + 0.0722 * data[p + 2];
+      histogram[Math.min(255, Math.round(luminance))]++;
+      if (column < splitColumn) {
+        sides.left += luminance;
+        sides.leftCount++;
+      } else {
+        sides.right += luminance;
+        sides.rightCount++;
+      }
+    }
+  }
+
+  const total = width * height;
+  let median = 0;
+  for (let value = 0, seen = 0; value < 256; value++) {
+    seen += histogram[value];
+    if (seen >= total / 2) {
+      median = value;
+      break;
+    }
+  }
+  const countFrom = (threshold: number) =>
+    histogram.slice(Math.ceil(threshold)).reduce((sum, count) => sum + count, 0);
+
+  const left = sides.left / sides.leftCount;
+  const right = sides.right / sides.rightCount;
+  const brighter = Math.max(left, right);
+  return {
+    highlightClipping: countFrom(CLIPPED_LUMINANCE) / total,
+    lightingImbalance: brighter > 0 ? 1 - Math.min(left, right) / brighter : 0,
+    glareRatio: countFrom(Math.max(GLARE_MIN_LUMINANCE, median + GLARE_MEDIAN_OFFSET)) / total,
+  };
+}
+
+/** Largura (px) para a qual o rosto é redimensionado antes de medir a nitidez. */
+const SHARPNESS_SAMPLE_WIDTH = 128;
+
+/**
+ * Mede a nitidez do rosto (variância do Laplaciano). O recorte é redimensionado para uma
+ * largura fixa, então o valor não depende da resolução da câmera nem da distância.
+ * Retorna null se não for possível amostrar os pixels.
+ */
+export function measureFaceSharpness(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  boundingBox: BoundingBox
+): number | null {
+  const x = Math.max(0, boundingBox.xMin * sourceWidth);
+  const y = Math.max(0, boundingBox.yMin * sourceHeight);
+  const faceWidth = Math.min(sourceWidth - x, boundingBox.width * sourceWidth);
+  const faceHeight = Math.min(sourceHeight - y, boundingBox.height * sourceHeight);
+  if (faceWidth < 1 || faceHeight < 1) return null;
+
+  const width = SHARPNESS_SAMPLE_WIDTH;
+  const height = Math.max(3, Math.round((faceHeight / faceWidth) * width));
+  try {
+    const ctx = createSamplingContext(width, height);
+    if (!ctx) return null;
+    ctx.drawImage(source, x, y, faceWidth, faceHeight, 0, 0, width, height);
+    return calculateSharpness(ctx.getImageData(0, 0, width, height));
+  } catch (error) {
+    console.warn('Erro ao medir a nitidez do rosto:', error);
+    return null;
+  }
+}
+
+/** Largura (px) da cópia reduzida do rosto usada para medir a cor. */
+const COLOR_SAMPLE_WIDTH = 48;
+
+/**
+ * Mede o desvio de cor da pele do rosto (ver calculateColorCast). Usa o centro da caixa
+ * da face, onde há pele e não fundo ou cabelo. Retorna null se não for possível amostrar.
+ */
+export function measureFaceColorCast(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  boundingBox: BoundingBox
+): number | null {
+  const region = {
+    x: (boundingBox.xMin + boundingBox.width * 0.2) * sourceWidth,
+    y: (boundingBox.yMin + boundingBox.height * 0.2) * sourceHeight,
+    width: boundingBox.width * 0.6 * sourceWidth,
+    height: boundingBox.height * 0.6 * sourceHeight,
+  };
+  // Cópia reduzida: a média de cor não precisa da resolução original
+  const scale = Math.min(1, COLOR_SAMPLE_WIDTH / Math.max(region.width, 1));
+  const width = Math.max(1, Math.round(region.width * scale));
+  const height = Math.max(1, Math.round(region.height * scale));
+  try {
+    const ctx = createSamplingContext(width, height);
+    if (!ctx) return null;
+    ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+    return calculateColorCast(ctx.getImageData(0, 0, width, height));
+  } catch (error) {
+    console.warn('Erro ao medir a cor do rosto:', error);
+    return null;
+  }
+}
+
+/**
+ * Mede o brilho médio (0-255) das regiões dos olhos (média dos dois olhos).
+ * `sourceWidth`/`sourceHeight` são as dimensões em pixels da fonte (vídeo ou imagem).
+ * Retorna null se não for possível amostrar os pixels.
+ */
+export function measureEyeBrightness(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  landmarks: NormalizedLandmark[]
+): number | null {
+  if (landmarks.length < 478) return null;
+
+  // Definir landmarks dos olhos (área maior que inclui região ao redor)
+  const leftEyeLandmarks = [
+    landmarks[33],  // Canto externo
+    landmarks[133], // Canto interno
+    landmarks[159], // Superior
+    landmarks[144], // Inferior
+    landmarks[145], // Centro
+  ];
+
+  const rightEyeLandmarks = [
+    landmarks[263], // Canto externo
+    landmarks[362], // Canto interno
+    landmarks[386], // Superior
+    landmarks[373], // Inferior
+    landmarks[374], // Centro
+  ];
+
+  // Função para calcular bounding box de uma região
+  const getBoundingBox = (eyeLandmarks: NormalizedLandmark[]) => {
+    const xs = eyeLandmarks.map(l => l.x * sourceWidth);
+    const ys = eyeLandmarks.map(l => l.y * sourceHeight);
+
+    const minX = Math.max(0, Math.min(...xs) - 5);
+    const maxX = Math.min(sourceWidth, Math.max(...xs) + 5);
+    const minY = Math.max(0, Math.min(...ys) - 5);
+    const maxY = Math.min(sourceHeight, Math.max(...ys) + 5);
 
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  };
+
+  try {
     // Analisar ambos os olhos
-    const leftEyeBox = getBoundingBox(leftEyeLandmarks);
-    const rightEyeBox = getBoundingBox(rightEyeLandmarks);
+    const leftEyeBrightness = calculateRegionBrightness(source, getBoundingBox(leftEyeLandmarks));
+    const rightEyeBrightness = calculateRegionBrightness(source, getBoundingBox(rightEyeLandmarks));
+    if (leftEyeBrightness === null || rightEyeBrightness === null) return null;
+    return (leftEyeBrightness + rightEyeBrightness) / 2;
+  } catch (error) {
+    console.warn('Erro ao medir brilho dos olhos:', error);
+    return null;
+  }
+}
 
-    const leftEyeBrightness = getRegionBrightness(leftEyeBox);
-    const rightEyeBrightness = getRegionBrightness(rightEyeBox);
+/** Lado maior (px) da cópia reduzida do frame usada para medir o fundo. */
+const BACKGROUND_SAMPLE_SIZE = 96;
+/** Diferença de luminância (0-255) entre pixels vizinhos contada como borda no fundo. */
+const BACKGROUND_EDGE_THRESHOLD = 24;
+/** Fração mínima do frame amostrada como fundo para a medição valer. */
+const MIN_BACKGROUND_COVERAGE = 0.05;
 
-    const avgEyeBrightness = (leftEyeBrightness + rightEyeBrightness) / 2;
+/**
+ * Medidas do fundo atrás da cabeça.
+ */
+export interface BackgroundMeasurement {
+  /** Luminância média (0-255). */
+  luminance: number;
+  /** Desvio padrão das cores (média dos canais R, G e B, 0-255). */
+  deviation: number;
+  /** Fração dos pixels do fundo com borda (0-1). */
+  edgeDensity: number;
+}
 
-    // Threshold: se a região dos olhos está muito escura (< 40 em escala 0-255)
-    // isso indica óculos escuros. Óculos de grau não bloqueiam tanto a luz.
-    // Ajustado para 35 para ser mais sensível a óculos escuros
-    return avgEyeBrightness < 35;
+/**
+ * Mede o fundo: a parte do frame acima do queixo, fora da cabeça. A caixa da face é
+ * ampliada para excluir cabelo e orelhas, e tudo abaixo dela (pescoço e ombros) é ignorado.
+ * Retorna null sem contexto 2D ou com fundo visível pequeno demais (rosto ocupando o quadro).
+ */
+export function measureBackground(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  boundingBox: BoundingBox
+): BackgroundMeasurement | null {
+  // Cópia reduzida: suaviza o ruído do sensor e mantém a medição barata
+  const scale = Math.min(1, BACKGROUND_SAMPLE_SIZE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
 
+  let data: Uint8ClampedArray;
+  try {
+    const ctx = createSamplingContext(width, height);
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, width, height);
+    data = ctx.getImageData(0, 0, width, height).data;
   } catch (error) {
-    console.warn('Erro ao detectar óculos escuros:', error);
-    return false; // Em caso de erro, não bloqueia a captura
+    console.warn('Erro ao medir o fundo:', error);
+    return null;
+  }
+
+  const headLeft = (boundingBox.xMin - boundingBox.width * 0.35) * width;
+  const headRight = (boundingBox.xMin + boundingBox.width * 1.35) * width;
+  const headTop = (boundingBox.yMin - boundingBox.height * 0.6) * height;
+  const chin = (boundingBox.yMin + boundingBox.height) * height;
+  const isBackground = (x: number, y: number) =>
+    y < chin && !(x >= headLeft && x <= headRight && y >= headTop);
+
+  const luminanceAt = (p: number) => 0.2126 * data[p] + 0.7152 * data[p + 1] + 0.0722 * data[p + 2];
+  let count = 0;
+  let luminanceSum = 0;
+  const sums = [0, 0, 0];
+  const squares = [0, 0, 0];
+  let edges = 0;
+  let compared = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isBackground(x, y)) continue;
+      const p = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        sums[c] += data[p + c];
+        squares[c] += data[p + c] * data[p + c];
+      }
+      const luminance = luminanceAt(p);
+      luminanceSum += luminance;
+      count++;
+
+      // Gradiente com os vizinhos à direita e abaixo, se também forem fundo
+      if (x + 1 < width && y + 1 < height && isBackground(x + 1, y) && isBackground(x, y + 1)) {
+        const gradient =
+          Math.abs(luminanceAt(p + 4) - luminance) + Math.abs(luminanceAt(p + width * 4) - luminance);
+        if (gradient > BACKGROUND_EDGE_THRESHOLD) edges++;
+        compared++;
+      }
+    }
   }
+  if (count < width * height * MIN_BACKGROUND_COVERAGE) return null;
+
+  const variance =
+    sums.reduce((total, sum, c) => total + squares[c] / count - (sum / count) * (sum / count), 0) / 3;
+  return {
+    luminance: luminanceSum / count,
+    deviation: Math.sqrt(Math.max(0, variance)),
+    edgeDensity: compared > 0 ? edges / compared : 0,
+  };
+}
+
+/**
+ * Detecta se a pessoa está usando óculos escuros a partir do brilho da região dos olhos.
+ * Óculos de grau geralmente não bloqueiam completamente a luz, permitindo ver os olhos.
+ * Sem medição disponível (null), não bloqueia a captura.
+ */
+export function hasDarkGlasses(eyeBrightness: number | null): boolean {
+  if (eyeBrightness === null) return false;
+
+  // Threshold: se a região dos olhos está muito escura (< 40 em escala 0-255)
+  // isso indica óculos escuros. Óculos de grau não bloqueiam tanto a luz.
+  // Ajustado para 35 para ser mais sensível a óculos escuros
+  return eyeBrightness < 35;
 }
 
 /**
@@ -385,50 +1011,76 @@ export function hasDarkGlasses(
  * Rejeita: sorriso, boca aberta, olhos fechados.
  */
 export function isNeutralExpression(landmarks: NormalizedLandmark[]): boolean {
-  if (landmarks.length < 478) return false;
-
-  // 1. Verificar se olhos estão abertos
-  const leftEyeTop = landmarks[MEDIAPIPE_LEFT_EYE_TOP];
-  const leftEyeBottom = landmarks[MEDIAPIPE_LEFT_EYE_BOTTOM];
-  const rightEyeTop = landmarks[MEDIAPIPE_RIGHT_EYE_TOP];
-  const rightEyeBottom = landmarks[MEDIAPIPE_RIGHT_EYE_BOTTOM];
+  const measures = measureExpression(landmarks);
+  if (!measures) return false;
 
-  const leftEyeOpenness = Math.abs(leftEyeTop.y - leftEyeBottom.y);
-  const rightEyeOpenness = Math.abs(rightEyeTop.y - rightEyeBottom.y);
-
-  // Olhos devem estar abertos (mínimo 1% de abertura em coordenadas normalizadas)
-  if (leftEyeOpenness < 0.01 || rightEyeOpenness < 0.01) {
+  // 1. Olhos devem estar abertos (mínimo 1% de abertura em coordenadas normalizadas)
+  if (measures.leftEyeOpenness < 0.01 || measures.rightEyeOpenness < 0.01) {
     return false; // Olho(s) fechado(s)
   }
 
-  // 2. Verificar se boca está fechada
-  const mouthTop = landmarks[MEDIAPIPE_MOUTH_TOP];
-  const mouthBottom = landmarks[MEDIAPIPE_MOUTH_BOTTOM];
-  const mouthOpenness = Math.abs(mouthTop.y - mouthBottom.y);
-
-  // Boca deve estar relativamente fechada (máximo 2.5% de abertura)
-  if (mouthOpenness > 0.025) {
+  // 2. Boca deve estar relativamente fechada (máximo 2.5% de abertura)
+  if (measures.mouthOpenness > 0.025) {
     return false; // Boca aberta
   }
 
-  // 3. Verificar se há sorriso (cantos da boca elevados)
-  const mouthLeftCorner = landmarks[MEDIAPIPE_MOUTH_LEFT_CORNER];
-  const mouthRightCorner = landmarks[MEDIAPIPE_MOUTH_RIGHT_CORNER];
-  const nose = landmarks[MEDIAPIPE_NOSE_TIP];
-
-  // Calcular posição vertical média dos cantos da boca relativo ao nariz
-  const mouthCornersAvgY = (mouthLeftCorner.y + mouthRightCorner.y) / 2;
-  const noseMouthDistance = mouthCornersAvgY - nose.y;
-
-  // Se os cantos da boca estão muito elevados (próximos ao nariz), é sorriso
+  // 3. Se os cantos da boca estão muito elevados (próximos ao nariz), é sorriso
   // Em expressão neutra, os cantos devem estar significativamente abaixo do nariz
-  if (noseMouthDistance < 0.05) {
+  if (measures.noseMouthDistance < 0.05) {
     return false; // Sorriso (cantos da boca elevados)
   }
 
   return true;
 }
 
+/**
+ * Score máximo aceito por categoria de blendshape numa expressão neutra. Os scores já são
+ * independentes da distância da câmera e de barba, ao contrário das distâncias entre landmarks.
+ */
+export const DEFAULT_BLENDSHAPE_THRESHOLDS: Readonly<Record<string, number>> = {
+  mouthSmileLeft: 0.5,
+  mouthSmileRight: 0.5,
+  jawOpen: 0.3,
+  eyeBlinkLeft: 0.5,
+  eyeBlinkRight: 0.5,
+  browInnerUp: 0.6,
+};
+
+/**
+ * Verifica a expressão pelos blendshapes: neutra se nenhuma categoria com limite passar dele.
+ * Categorias ausentes no resultado do modelo não reprovam.
+ */
+export function isNeutralExpressionByBlendshapes(
+  blendshapes: FaceBlendshapes,
+  thresholds: Record<string, number> = DEFAULT_BLENDSHAPE_THRESHOLDS
+): boolean {
+  return Object.entries(thresholds).every(([category, max]) => (blendshapes[category] ?? 0) <= max);
+}
+
+/**
+ * Mede abertura dos olhos, abertura da boca e distância vertical nariz–cantos da boca
+ * (coordenadas normalizadas). Retorna null se os landmarks estiverem incompletos.
+ */
+export function measureExpression(landmarks: NormalizedLandmark[]): {
+  leftEyeOpenness: number;
+  rightEyeOpenness: number;
+  mouthOpenness: number;
+  noseMouthDistance: number;
+} | null {
+  if (landmarks.length < 478) return null;
+
+  const leftEyeOpenness = Math.abs(landmarks[MEDIAPIPE_LEFT_EYE_TOP].y - landmarks[MEDIAPIPE_LEFT_EYE_BOTTOM].y);
+  const rightEyeOpenness = Math.abs(landmarks[MEDIAPIPE_RIGHT_EYE_TOP].y - landmarks[MEDIAPIPE_RIGHT_EYE_BOTTOM].y);
+  const mouthOpenness = Math.abs(landmarks[MEDIAPIPE_MOUTH_TOP].y - landmarks[MEDIAPIPE_MOUTH_BOTTOM].y);
+
+  // Posição vertical média dos cantos da boca relativa ao nariz
+  const mouthCornersAvgY =
+    (landmarks[MEDIAPIPE_MOUTH_LEFT_CORNER].y + landmarks[MEDIAPIPE_MOUTH_RIGHT_CORNER].y) / 2;
+  const noseMouthDistance = mouthCornersAvgY - landmarks[MEDIAPIPE_NOSE_TIP].y;
+
+  return { leftEyeOpenness, rightEyeOpenness, mouthOpenness, noseMouthDistance };
+}
+
 /**
  * Verifica yaw (inclinação lateral) usando visibilidade das orelhas.
  * Quando o rosto está virado para o lado, uma orelha fica mais visível que a outra.
@@ -478,7 +1130,28 @@ export function isFaceStable(
   frameWidth: number = 512,
   frameHeight: number = 384
 ): boolean {
-  if (!currentFace || !previousFace) return false;
+  const movement = measureFaceMovement(currentFace, previousFace, frameWidth, frameHeight);
+  if (!movement) return false;
+
+  return (
+    movement.deltaX <= movementThreshold &&
+    movement.deltaY <= movementThreshold &&
+    movement.deltaWidth <= movementThreshold * 2 &&
+    movement.deltaHeight <= movementThreshold * 2
+  );
+}
+
+/**
+ * Mede o deslocamento (em pixels) do centro e do tamanho do bounding box entre dois frames.
+ * Retorna null se algum dos frames não tiver face.
+ */
+export function measureFaceMovement(
+  currentFace: DetectedFaceData | null,
+  previousFace: DetectedFaceData | null,
+  frameWidth: number = 512,
+  frameHeight: number = 384
+): { deltaX: number; deltaY: number; deltaWidth: number; deltaHeight: number } | null {
+  if (!currentFace || !previousFace) return null;
 
   // Converter coordenadas normalizadas para pixels
   const currentCenterX = (currentFace.boundingBox.xMin + currentFace.boundingBox.width / 2) * frameWidth;
@@ -491,12 +1164,7 @@ export function isFaceStable(
   const deltaWidth = Math.abs(currentFace.boundingBox.width - previousFace.boundingBox.width) * frameWidth;
   const deltaHeight = Math.abs(currentFace.boundingBox.height - previousFace.boundingBox.height) * frameHeight;
 
-  return (
-    deltaX <= movementThreshold &&
-    deltaY <= movementThreshold &&
-    deltaWidth <= movementThreshold * 2 &&
-    deltaHeight <= movementThreshold * 2
-  );
+  return { deltaX, deltaY, deltaWidth, deltaHeight };
 }
 
 /**
@@ -508,20 +1176,24 @@ export function isHandNearFace(
   faceBoundingBox: BoundingBox,
   maxDistance: number = 0.15
 ): boolean {
+  return measureHandFaceDistance(handData, faceBoundingBox) < maxDistance;
+}
+
+/**
+ * Menor distância (normalizada) entre um ponto da mão e o centro do rosto.
+ */
+export function measureHandFaceDistance(handData: DetectedHandData, faceBoundingBox: BoundingBox): number {
   const faceCenterX = faceBoundingBox.xMin + faceBoundingBox.width / 2;
   const faceCenterY = faceBoundingBox.yMin + faceBoundingBox.height / 2;
 
-  // Verificar se algum ponto da mão está próximo ao centro do rosto
+  let minDistance = Infinity;
   for (const landmark of handData.landmarks) {
     const dx = landmark.x - faceCenterX;
     const dy = landmark.y - faceCenterY;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    if (distance < maxDistance) {
-      return true;
-    }
+    minDistance = Math.min(minDistance, Math.sqrt(dx * dx + dy * dy));
   }
 
-  return false;
+  return minDistance;
 }
 
 /**
@@ -530,7 +1202,7 @@ export function isHandNearFace(
 export function drawOverlay(
   canvas: HTMLCanvasElement,
   debugMode: boolean,
-  status: ValidationStatus,
+  status: ValidationCode,
   faceData?: DetectedFaceData,
   handData?: DetectedHandData[]
 ): void {
@@ -608,7 +1280,11 @@ export function drawOverlay(
 
       // Bounding box colorido por status (adaptável)
       let boxColor = 'red';
-      if (status === ValidationStatus.STAY_STILL || status === ValidationStatus.CAPTURING) {
+      if (
+        status === ValidationStatus.STAY_STILL ||
+        status === ValidationStatus.READY_TO_CAPTURE ||
+        status === ValidationStatus.CAPTURING
+      ) {
         boxColor = 'lime';
       } else if (status === ValidationStatus.FACE_DETECTED) {
         boxColor = 'yellow';
@@ -0,0 +1,94 @@
+import type { DetectorBackend, DetectorFrame, DetectorResult, ModelsLoadedInfo } from './types';
+import type { ModelLoadOptions } from './modelRegistry';
+import { WorkerRequest, WorkerResponse, WorkerDetection } from './workerProtocol';
+
+interface PendingRequest<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Backend do modo worker (opção `workerUrl`): envia frames como ImageBitmap
+ * (transferidos, sem cópia) e devolve o resultado de cada um como Promise.
+ */
+export class WorkerDetectorBackend implements DetectorBackend {
+  private worker: Worker;
+  private nextId = 1;
+  private loading: PendingRequest<ModelsLoadedInfo> | null = null;
+  private pending = new Map<number, PendingRequest<WorkerDetection>>();
+
+  constructor(url: string | URL, private readonly options: ModelLoadOptions) {
+    this.worker = new Worker(url);
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = event => {
+      event.preventDefault();
+      this.rejectAll(new Error(event.message || 'Detection worker failed.'));
+    };
+  }
+
+  load(): Promise<ModelsLoadedInfo> {
+    return new Promise<ModelsLoadedInfo>((resolve, reject) => {
+      this.loading = { resolve, reject };
+      this.post({ type: 'init', options: this.options });
+    });
+  }
+
+  async detect({ source, timestamp, detectHands }: DetectorFrame): Promise<DetectorResult> {
+    const frame = await createImageBitmap(source);
+    const id = this.nextId++;
+    const { faces, blendshapes, headPoses, hands, ...metrics } = await new Promise<WorkerDetection>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.post({ type: 'detect', id, frame, timestamp, detectHands }, [frame]);
+    });
+    return {
+      faces,
+      blendshapes,
+      headPoses,
+      getHands: () => hands,
+      metrics,
+    };
+  }
+
+  /**
+   * Encerra o worker. O carregamento e as detecções pendentes são rejeitados.
+   */
+  dispose(): void {
+    this.worker.terminate();
+    this.rejectAll(new Error('Detection worker was disposed.'));
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private handleMessage(message: WorkerResponse): void {
+    if (message.type === 'ready') {
+      this.loading?.resolve({ delegate: message.delegate });
+      this.loading = null;
+      return;
+    }
+
+    if (message.type === 'error' && message.id === undefined) {
+      this.rejectAll(new Error(message.message));
+      return;
+    }
+
+    const request = this.pending.get(message.id as number);
+    if (!request) return;
+    this.pending.delete(message.id as number);
+    if (message.type === 'error') {
+      request.reject(new Error(message.message));
+    } else {
+      // Sem type/id: o restante vira as métricas do frame
+      const { type: _type, id: _id, ...detection } = message;
+      request.resolve(detection);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.loading?.reject(error);
+    this.loading = null;
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
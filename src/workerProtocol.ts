@@ -0,0 +1,42 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { DetectedHandData, FaceBlendshapes, HeadPose } from './types';
+import type { ModelLoadOptions } from './modelRegistry';
+
+/**
+ * Mensagens do FaceValidator para o worker de inferência.
+ */
+export type WorkerRequest =
+  | { type: 'init'; options: ModelLoadOptions }
+  | { type: 'detect'; id: number; frame: ImageBitmap; timestamp: number; detectHands: boolean };
+
+/**
+ * Resultado da detecção de um frame no worker. Mãos e métricas de pixels só são medidas
+ * quando há exatamente uma face (nos demais casos as regras não rodam). As métricas são
+ * todas medidas no worker, fora da thread principal; as mãos só quando pedidas
+ * (`detectHands`), senão `hands` é null.
+ */
+export interface WorkerDetection {
+  faces: NormalizedLandmark[][];
+  /** Vazio se o modelo não foi criado com outputFaceBlendshapes. */
+  blendshapes: FaceBlendshapes[];
+  headPoses: HeadPose[];
+  hands: DetectedHandData[] | null;
+  eyeBrightness: number | null;
+  faceBrightness: number | null;
+  sharpness: number | null;
+  highlightClipping: number | null;
+  glareRatio: number | null;
+  lightingImbalance: number | null;
+  colorCast: number | null;
+  backgroundLuminance: number | null;
+  backgroundDeviation: number | null;
+  backgroundEdgeDensity: number | null;
+}
+
+/**
+ * Mensagens do worker de inferência para o FaceValidator.
+ */
+export type WorkerResponse =
+  | { type: 'ready'; delegate: 'GPU' | 'CPU' }
+  | ({ type: 'result'; id: number } & WorkerDetection)
+  | { type: 'error'; id?: number; message: string };
@@ -114,6 +114,17 @@ const coreUmdConfig = {
   },
 };
 
+// Worker de inferência (opção workerUrl). Worker clássico não resolve imports: MediaPipe vai no bundle
+const workerConfig = {
+  ...baseConfig,
+  entry: './src/detection.worker.ts',
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: `${baseFilename}.worker.js`,
+  },
+  target: 'webworker',
+};
+
 module.exports = (env, argv) => {
   const devtool = argv.mode === 'production' ? 'source-map' : 'inline-source-map';
   return [
@@ -123,5 +134,6 @@ module.exports = (env, argv) => {
     { ...coreCjsConfig, devtool },
     { ...coreEsmConfig, devtool },
     { ...coreUmdConfig, devtool },
+    { ...workerConfig, devtool },
   ];
 };